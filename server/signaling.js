@@ -0,0 +1,209 @@
+// Local WebRTC Signaling Server
+// Relays offer/answer and trickle ICE candidates between the two peers of a room.
+// Dependency-free (Node's http + crypto); run with `npm run signaling`.
+//
+// Client → server: { type: 'join', room }            then { type: 'signal', data }
+// Server → client: { type: 'joined', peerPresent }   { type: 'peer-joined' }
+//                  { type: 'signal', data }          { type: 'peer-left' }
+//                  { type: 'error', reason }
+//
+// The server only forwards opaque messages; it is not trusted. The passcode
+// handshake and the SAS comparison detect a server that tampers with them.
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+
+const PORT = Number(process.env.SIGNALING_PORT ?? 8787);
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 256 * 1024;
+const ROOM_SIZE = 2;
+
+/** room ID → set of sockets */
+const rooms = new Map();
+
+// ---------------------------------------------------------------------------
+// Minimal RFC 6455 framing: unfragmented text frames, ping/pong and close
+// ---------------------------------------------------------------------------
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Parse as many complete frames as the buffer holds.
+ * Returns the frames and the unconsumed remainder, or null on a protocol error.
+ */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    const fin = (first & 0x80) !== 0;
+    const opcode = first & 0x0f;
+    const masked = (second & 0x80) !== 0;
+    let length = second & 0x7f;
+    let cursor = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    // Clients must mask, and signaling messages are small and never fragmented
+    if (!masked || !fin || length > MAX_FRAME_BYTES) return null;
+    if (buffer.length < cursor + 4 + length) break;
+
+    const mask = buffer.subarray(cursor, cursor + 4);
+    cursor += 4;
+    const payload = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+      payload[i] = buffer[cursor + i] ^ mask[i & 3];
+    }
+    frames.push({ opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// ---------------------------------------------------------------------------
+// Rooms
+// ---------------------------------------------------------------------------
+
+function send(socket, message) {
+  if (!socket.destroyed) {
+    socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  }
+}
+
+function peersOf(socket) {
+  const members = socket.room ? rooms.get(socket.room) : null;
+  return members ? [...members].filter(member => member !== socket) : [];
+}
+
+function join(socket, room) {
+  if (typeof room !== 'string' || room.length === 0 || room.length > 64) {
+    send(socket, { type: 'error', reason: 'Invalid room ID' });
+    return;
+  }
+  if (socket.room) {
+    send(socket, { type: 'error', reason: 'Already joined a room' });
+    return;
+  }
+  const members = rooms.get(room) ?? new Set();
+  if (members.size >= ROOM_SIZE) {
+    send(socket, { type: 'error', reason: 'Room is full' });
+    return;
+  }
+
+  members.add(socket);
+  rooms.set(room, members);
+  socket.room = room;
+
+  const peers = peersOf(socket);
+  send(socket, { type: 'joined', peerPresent: peers.length > 0 });
+  peers.forEach(peer => send(peer, { type: 'peer-joined' }));
+  console.log(`[${room}] peer joined (${members.size}/${ROOM_SIZE})`);
+}
+
+function leave(socket) {
+  const room = socket.room;
+  if (!room) return;
+  const members = rooms.get(room);
+  members?.delete(socket);
+  if (members && members.size === 0) rooms.delete(room);
+  members?.forEach(peer => send(peer, { type: 'peer-left' }));
+  socket.room = null;
+  console.log(`[${room}] peer left`);
+}
+
+function handleMessage(socket, text) {
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch {
+    send(socket, { type: 'error', reason: 'Malformed message' });
+    return;
+  }
+
+  if (message?.type === 'join') {
+    join(socket, message.room);
+  } else if (message?.type === 'signal') {
+    peersOf(socket).forEach(peer => send(peer, { type: 'signal', data: message.data }));
+  } else {
+    send(socket, { type: 'error', reason: 'Unknown message type' });
+  }
+}
+
+// ---------------------------------------------------------------------------
+// HTTP upgrade
+// ---------------------------------------------------------------------------
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('WebSocket signaling endpoint\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+      'Upgrade: websocket\r\n' +
+      'Connection: Upgrade\r\n' +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  socket.room = null;
+  let pending = Buffer.alloc(0);
+
+  socket.on('data', chunk => {
+    const result = decodeFrames(Buffer.concat([pending, chunk]));
+    if (!result) {
+      socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      return;
+    }
+    pending = result.rest;
+
+    for (const { opcode, payload } of result.frames) {
+      if (opcode === 0x1) {
+        handleMessage(socket, payload.toString('utf8'));
+      } else if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      }
+    }
+  });
+
+  socket.on('close', () => leave(socket));
+  socket.on('error', () => socket.destroy());
+});
+
+server.listen(PORT, () => {
+  console.log(`Signaling server listening on ws://localhost:${PORT}`);
+});
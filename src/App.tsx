@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from './pages/Index';
 import NotFound from './pages/NotFound';
 import HomePage from '@/pages/HomePage';
+import SoloDemo from '@/pages/SoloDemo';
 import Layout from '@/components/Layout';
 
 const queryClient = new QueryClient();
@@ -19,6 +20,7 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Layout><HomePage /></Layout>} />
           <Route path="/room" element={<Layout><Index /></Layout>} />
+          <Route path="/demo" element={<Layout><SoloDemo /></Layout>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<Layout><NotFound /></Layout>} />
         </Routes>
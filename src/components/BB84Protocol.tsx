@@ -1,435 +1,269 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Loader2, Shield, AlertTriangle, CheckCircle, Send, Radio } from 'lucide-react';
+import { Loader2, Shield, AlertTriangle, CheckCircle, Send, Radio, WifiOff, Download, X } from 'lucide-react';
 import { Role } from '@/types/quantum';
-import { BB84Config, ProtocolState, BB84Message, Bit, Basis } from '@/types/bb84';
-import { QuantumSimulator } from '@/utils/quantum-simulator';
+import { BB84Config, SessionState, ReconciliationMethod, ChatMode, Transport, LinkStatus, ChannelParams, EveStrategyName, QasmVersion, QkdProtocol, QuantumBackend } from '@/types/bb84';
+import { BB84Session } from '@/utils/bb84-session';
+import { otpCapacityBytes } from '@/utils/otp';
+import { ChannelMultiplexer } from '@/utils/multiplexer';
+import { KeyStore } from '@/utils/key-store';
+import { KeyRefreshEngine } from '@/utils/key-refresh';
+import { WorkerCompute } from '@/utils/worker-compute';
+import { QBER_THRESHOLDS, b92BobBits, bitsToHex } from '@/utils/bb84-protocol';
+import { CHANNEL_PRESETS, IDEAL_CHANNEL, expectedChannelStats, validateChannelParams } from '@/utils/channel-model';
 import {
-  performSifting,
-  extractSiftedKey,
-  selectRandomSample,
-  calculateQBER,
-  removeSampledBits,
-  performErrorCorrection,
-  performPrivacyAmplification,
-  generateCommitment,
-  verifyCommitment,
-  bitsToHex,
-} from '@/utils/bb84-protocol';
-import { WebRTCConnection } from '@/utils/webrtc';
+  BASIS_ANNOUNCEMENT_STRATEGIES,
+  DEFAULT_EVE_ATTACK,
+  EVE_STRATEGY_LABELS,
+  createEveStrategy,
+  validateEveAttack,
+} from '@/utils/eve-strategies';
+import { analyzeEveKnowledge } from '@/utils/eve-knowledge';
+import { exportRunQasm, parseQasm } from '@/utils/qasm';
 import { useToast } from '@/hooks/use-toast';
 import SecureChat from './SecureChat';
 import Qubit from './Qubit';
 import SiftedQubitDisplay from './SiftedQubitDisplay';
+import EveKnowledgeCard from './EveKnowledgeCard';
 import AnimatedCounter from './AnimatedCounter';
 import { Link } from 'react-router-dom';
 
+// Longer keys are shown truncated; a million-qubit run distills ~10^5 bits
+const KEY_DISPLAY_BITS = 4096;
+
+// Inputs of the Quantum Channel section, in display order
+const CHANNEL_FIELDS: { name: keyof ChannelParams; label: string; step: number }[] = [
+  { name: 'distance', label: 'Distance (km)', step: 1 },
+  { name: 'attenuation', label: 'Attenuation (dB/km)', step: 0.05 },
+  { name: 'detectorEfficiency', label: 'Detector Efficiency', step: 0.05 },
+  { name: 'darkCountProbability', label: 'Dark Count Probability', step: 0.00001 },
+  { name: 'depolarizing', label: 'Depolarizing', step: 0.01 },
+  { name: 'bitFlip', label: 'Bit Flip', step: 0.01 },
+  { name: 'phaseFlip', label: 'Phase Flip', step: 0.01 },
+  { name: 'misalignment', label: 'Misalignment (°)', step: 0.5 },
+];
+
 interface BB84ProtocolProps {
   role: Role;
-  connection: WebRTCConnection;
+  connection: Transport; // WebRTC data channel, or a loopback in the solo demo
+  linkStatus?: LinkStatus; // Reported by the resumable layer under a WebRTC connection
 }
 
-const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
+const BB84Protocol = ({ role, connection, linkStatus }: BB84ProtocolProps) => {
   const { toast } = useToast();
   const [config, setConfig] = useState<BB84Config>({
-    numQubits: 200,
-    sampleSize: 20,
-    qberThreshold: 0.11,
+    protocol: 'bb84',
+    numQubits: 10000,
+    sampleSize: 500,
+    qberThreshold: QBER_THRESHOLDS.bb84,
     backend: 'qiskit',
     eveEnabled: false,
+    eve: DEFAULT_EVE_ATTACK,
+    channel: IDEAL_CHANNEL,
+    circuit: null,
+    reconciliation: 'cascade',
+    epsilonSec: 1e-10,
+    epsilonCor: 1e-15,
+    keyRefreshInterval: 30,
   });
-  const configRef = useRef(config);
-
-  const [state, setState] = useState<ProtocolState>({
-    step: 'idle',
-    aliceBits: [],
-    aliceBases: [],
-    bobBases: [],
-    bobOutcomes: [],
-    keepMask: [],
-    siftedKey: [],
-    sampleIndices: [],
-    qber: null,
-    ecStats: null,
-    paStats: null,
-    finalKey: [],
-    abortReason: null,
-  });
-  const stateRef = useRef(state);
-  const toastRef = useRef(toast);
 
-  const [simulator] = useState(() => new QuantumSimulator(config.backend));
+  const [channels] = useState(() => {
+    const mux = new ChannelMultiplexer(connection);
+    return { protocol: mux.channel('protocol'), chat: mux.channel('chat'), refresh: mux.channel('refresh') };
+  });
+  const [compute] = useState(() => new WorkerCompute());
+  const [session] = useState(() => new BB84Session(role, channels.protocol, config, compute));
+  const [state, setState] = useState<SessionState>(session.state);
+  const [keyStore] = useState(() => new KeyStore());
+  const [refreshEngine] = useState(() => new KeyRefreshEngine(role, channels.refresh, keyStore, config, compute));
+  const [refreshStatus, setRefreshStatus] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [peerReady, setPeerReady] = useState(false);
-  const [hasSentBases, setHasSentBases] = useState(false);
+  const [chatMode, setChatMode] = useState<ChatMode>('aes');
 
-  useEffect(() => {
-    configRef.current = config;
-  }, [config]);
+  // The worker restarts on the next job if the component is mounted again
+  useEffect(() => () => compute.terminate(), [compute]);
 
   useEffect(() => {
-    stateRef.current = state;
-  }, [state]);
+    session.configure(config);
+    refreshEngine.configure(config);
+  }, [config, session, refreshEngine]);
 
+  // The session does the protocol work; this component only renders its state
   useEffect(() => {
-    toastRef.current = toast;
-  }, [toast]);
-
-  // Handle incoming messages
-  useEffect(() => {
-    const handleMessage = (data: BB84Message) => {
-      const currentState = stateRef.current;
-      const currentConfig = configRef.current;
-      console.log('Received BB84 message:', data.type);
-
-      switch (data.type) {
-        case 'prepared':
-          if (role === 'bob') {
-            setState(prev => ({
-              ...prev,
-              aliceBits: data.aliceBits, // Store for measurement comparison
-              aliceBases: data.aliceBases, // Store for measurement comparison
-            }));
-            setPeerReady(true);
-            toast({
-              title: 'Alice Prepared Qubits',
-              description: `${data.numQubits} qubits ready for measurement`,
-            });
-          }
-          break;
-
-        case 'measured':
-          if (role === 'alice') {
-            setPeerReady(true);
-            setState(prev => ({ ...prev, step: 'sifting' }));
-          }
-          break;
-
-        case 'announce_bases':
-          // Received bases from peer, now perform sifting
-          setHasSentBases(prev => {
-            // If we haven't sent our bases yet, send them now.
-            if (!prev) {
-              const myBases = role === 'alice' ? currentState.aliceBases : currentState.bobBases;
-              connection.sendMessage({ type: 'announce_bases', bases: myBases });
-            }
-            return true;
-          });
-          
-          // Perform sifting
-          const myBases = role === 'alice' ? currentState.aliceBases : currentState.bobBases;
-          const keepMask = performSifting(myBases, data.bases);
-          const myBits = role === 'alice' ? currentState.aliceBits : currentState.bobOutcomes;
-          const siftedKey = extractSiftedKey(myBits, keepMask);
-          setState(prev => ({ 
-            ...prev, 
-            bobBases: role === 'alice' ? data.bases : prev.bobBases, 
-            keepMask, 
-            siftedKey, 
-            step: 'qber' 
-          }));
-          if (role === 'bob') {
-            connection.sendMessage({ type: 'sifting_result', keepMask });
-          }
-          toast({ title: 'Sifting Complete', description: `Kept ${siftedKey.length} bits` });
-          break;
-
-        case 'sifting_result':
-          if (role === 'alice') {
-            const siftedKey = extractSiftedKey(currentState.aliceBits, data.keepMask);
-            setState(prev => ({ ...prev, step: 'qber', siftedKey, keepMask: data.keepMask }));
-            toast({ title: 'Sifting Complete', description: 'Ready for QBER check.' });
-          }
-          break;
-
-        case 'qber_request':
-          if (role === 'bob') {
-            const bobSiftedKey = extractSiftedKey(currentState.bobOutcomes, currentState.keepMask);
-            console.log('Bob QBER - Sifted key length:', bobSiftedKey.length);
-            console.log('Bob QBER - Sample indices:', data.sampleIndices);
-            
-            const bobSample = data.sampleIndices
-              .map(i => bobSiftedKey[i])
-              .filter((bit): bit is Bit => bit !== undefined);
-
-            console.log('Bob QBER - Alice sample:', data.sampleBits);
-            console.log('Bob QBER - Bob sample:', bobSample);
-
-            if (bobSample.length !== data.sampleIndices.length) {
-              handleAbort('Insufficient sifted bits for QBER estimation.');
-              break;
-            }
-
-            connection.sendMessage({ type: 'qber_response', sampleBits: bobSample });
-
-            const qber = calculateQBER(data.sampleBits, bobSample);
-            console.log('Bob QBER calculated:', qber);
-
-            if (qber > currentConfig.qberThreshold) {
-              handleAbort(`QBER of ${(qber * 100).toFixed(2)}% exceeds threshold.`);
-            } else {
-              const keyAfterSampleRemoval = removeSampledBits(bobSiftedKey, data.sampleIndices);
-              setState(prev => ({ ...prev, step: 'error-correction', qber, siftedKey: keyAfterSampleRemoval }));
-              toast({ title: 'QBER Acceptable', description: `QBER: ${(qber * 100).toFixed(2)}%` });
-            }
-          }
-          break;
-
-        case 'qber_response':
-          if (role === 'alice') {
-            const aliceSiftedKey = extractSiftedKey(currentState.aliceBits, currentState.keepMask);
-            console.log('Alice QBER - Sifted key length:', aliceSiftedKey.length);
-            console.log('Alice QBER - Sample indices:', currentState.sampleIndices);
-            
-            const aliceSample = currentState.sampleIndices
-              .map(i => aliceSiftedKey[i])
-              .filter((bit): bit is Bit => bit !== undefined);
-
-            console.log('Alice QBER - Alice sample:', aliceSample);
-            console.log('Alice QBER - Bob sample:', data.sampleBits);
-
-            if (aliceSample.length !== currentState.sampleIndices.length) {
-              handleAbort('Insufficient sifted bits for QBER evaluation.');
-              break;
-            }
-
-            const qber = calculateQBER(aliceSample, data.sampleBits);
-            console.log('Alice QBER calculated:', qber);
-
-            if (qber > currentConfig.qberThreshold) {
-              handleAbort(`QBER of ${(qber * 100).toFixed(2)}% exceeds threshold.`);
-            } else {
-              const keyAfterSampleRemoval = removeSampledBits(aliceSiftedKey, currentState.sampleIndices);
-              setState(prev => ({ ...prev, step: 'error-correction', qber, siftedKey: keyAfterSampleRemoval }));
-              toast({ title: 'QBER Acceptable', description: `QBER: ${(qber * 100).toFixed(2)}%` });
-            }
-          }
-          break;
-
-
-        case 'error_correction_stats':
-          if (role === 'bob') {
-            // Bob needs to use the corrected key from Alice's error correction
-            setState(prev => ({ 
-              ...prev, 
-              ecStats: data.stats, 
-              siftedKey: data.stats.correctedKey, // Use Alice's corrected key
-              step: 'privacy-amplification' 
-            }));
-            toast({ title: 'Error Correction Complete', description: 'Ready for privacy amplification.' });
-          }
-          break;
-
-        case 'privacy_amplification':
-          // Handle privacy amplification
-          break;
-
-        case 'final_key_commitment':
-          if (role === 'bob') {
-            // Bob needs to compute his own finalKey from his sifted key
-            const paStats = performPrivacyAmplification(currentState.siftedKey, currentState.qber ?? 0, currentState.ecStats?.bitsRevealed ?? 0);
-            const finalKey = paStats.amplifiedKey;
-            
-            const match = verifyCommitment(finalKey, data.commitment);
-
-            connection.sendMessage({
-              type: 'final_key_confirmed',
-              match,
-            });
-
-            if (match) {
-              setState(prev => ({ ...prev, paStats, finalKey, step: 'success' }));
-              toast({
-                title: 'Key Verified!',
-                description: 'Keys match. You can now proceed to secure chat.',
-              });
-            } else {
-              setState(prev => ({
-                ...prev,
-                step: 'aborted',
-                abortReason: 'Key verification failed',
-              }));
-              toast({
-                title: 'Protocol Aborted',
-                description: 'Key verification failed',
-                variant: 'destructive',
-              });
-            }
-          }
-          break;
-
-        case 'final_key_confirmed':
-          if (data.match) {
-            setState(prev => ({ ...prev, step: 'success' }));
-            toast({
-              title: 'Key Exchange Successful!',
-              description: 'Secure key established. Choose how to proceed.',
-            });
-          } else {
-            handleAbort('Key commitment mismatch');
-          }
-          break;
+    channels.protocol.onMessage(data => session.handleMessage(data));
+    return session.subscribe(event => {
+      if (event.kind === 'state') {
+        setState(event.state);
+      } else if (event.kind === 'notice') {
+        toast({ title: event.title, description: event.description, variant: event.variant });
+      } else if (event.kind === 'key-verified') {
+        keyStore.append(0, event.key);
       }
-    };
-
-    connection.onMessage(handleMessage);
-  }, [role, connection]);
+    });
+  }, [channels, session, keyStore, toast]);
 
-  const handlePrepare = useCallback(() => {
-    if (role !== 'alice' || state.step !== 'idle') return;
+  // Short pause so each step is visible before the result appears
+  const withDelay = useCallback((action: () => void, delay: number) => {
     setLoading(true);
     setTimeout(() => {
-      const aliceBits = simulator.generateRandomBits(config.numQubits);
-      const aliceBases = simulator.generateRandomBases(config.numQubits);
-      setState(prev => ({ ...prev, step: 'preparation', aliceBits, aliceBases, bobBases: [], bobOutcomes: [] }));
-      connection.sendMessage({ type: 'prepared', numQubits: config.numQubits, aliceBits, aliceBases });
+      action();
       setLoading(false);
-      toast({ title: 'Qubits Prepared', description: `${config.numQubits} qubits encoded and sent` });
-    }, 1000);
-  }, [role, config.numQubits, simulator, connection, state.step]);
+    }, delay);
+  }, []);
 
-  const handleMeasure = useCallback(() => {
-    if (role !== 'bob' || !peerReady || state.step !== 'idle') return;
-    setLoading(true);
-    setTimeout(() => {
-      const bobBases = simulator.generateRandomBases(config.numQubits);
-      const transmissionResult = simulator.simulateTransmission(state.aliceBits, state.aliceBases, bobBases, config.eveEnabled);
-      const eveBases = transmissionResult.eveBases;
-      const eveOutcomes = transmissionResult.eveOutcomes;
-      const bobOutcomes = transmissionResult.bobOutcomes;
-      setState(prev => ({ ...prev, step: 'measurement', bobBases, bobOutcomes, eveBases, eveOutcomes }));
-      connection.sendMessage({ type: 'measured', numQubits: config.numQubits });
-      setLoading(false);
-      toast({ title: 'Qubits Measured', description: `${config.numQubits} qubits measured` });
-    }, 1000);
-  }, [role, peerReady, config, simulator, connection, state.aliceBits, state.aliceBases, state.step]);
+  const handlePrepare = useCallback(() => withDelay(() => session.prepare(), 1000), [session, withDelay]);
+  const handleMeasure = useCallback(() => withDelay(() => session.measure(), 1000), [session, withDelay]);
+  const handleSifting = useCallback(() => withDelay(() => session.announceBases(), 500), [session, withDelay]);
+  const handleQBEREstimation = useCallback(() => session.estimateQBER(), [session]);
+  const handleErrorCorrection = useCallback(() => session.reconcile(), [session]);
+  const handlePrivacyAmplification = useCallback(() => session.amplify(), [session]);
+  const handleEnterChat = useCallback(() => session.enterChat(), [session]);
+
+  const reconciliationInitiator: Role = config.reconciliation === 'cascade' ? 'bob' : 'alice';
+  const busy = loading || state.busy || state.progress !== null;
+
+  const channelPreset = Object.keys(CHANNEL_PRESETS).find(name =>
+    CHANNEL_FIELDS.every(({ name: field }) => CHANNEL_PRESETS[name].params[field] === config.channel[field])
+  ) ?? 'custom';
+  const channelError = validateChannelParams(config.channel);
+  const b92 = config.protocol === 'b92';
+  const channelStats = expectedChannelStats(config.channel, config.protocol);
+  // Bits expected to survive sifting: half the detected qubits (a quarter in B92), counted once Bob reports them
+  const detectedCount = useMemo(() => state.detected.popcount(), [state.detected]);
+  const expectedSifted =
+    (state.detected.length > 0 ? detectedCount : config.numQubits * channelStats.detectionRate) * (b92 ? 0.25 : 0.5);
+
+  const eveKnowledge = useMemo(() => analyzeEveKnowledge(state, config.protocol), [state, config.protocol]);
+  const eveError = validateEveAttack(config.eve);
+  const eveImpact = eveError ? null : createEveStrategy(config.eve, config.channel).expectedImpact();
+
+  const updateChannel = (name: keyof ChannelParams, value: string) => {
+    const parsed = parseFloat(value);
+    setConfig(prev => ({ ...prev, channel: { ...prev.channel, [name]: Number.isNaN(parsed) ? 0 : parsed } }));
+  };
 
-  const handleSifting = useCallback(() => {
-    if (state.step !== 'sifting' || hasSentBases) return;
-    setLoading(true);
-    setTimeout(() => {
-      const bases = role === 'alice' ? state.aliceBases : state.bobBases;
-      connection.sendMessage({ type: 'announce_bases', bases });
-      setHasSentBases(true);
-      setLoading(false);
-    }, 500);
-  }, [role, state.step, state.aliceBases, state.bobBases, connection, hasSentBases]);
-
-  const handleQBEREstimation = useCallback(() => {
-    const currentState = stateRef.current;
-    if (role !== 'alice' || currentState.step !== 'qber') return;
-    if (currentState.siftedKey.length === 0) {
-      toastRef.current({ 
-        title: 'Error', 
-        description: 'No sifted key available for QBER estimation',
-        variant: 'destructive'
-      });
-      return;
-    }
-    setLoading(true);
-    const sampleIndices = selectRandomSample(currentState.siftedKey.length, config.sampleSize);
-    const sampleBits = sampleIndices.map(i => currentState.siftedKey[i]);
-    setState(prev => ({ ...prev, sampleIndices }));
-    connection.sendMessage({ type: 'qber_request', sampleIndices, sampleBits });
-    toastRef.current({ title: 'QBER sample sent' });
-    setLoading(false);
-  }, [role, config.sampleSize, connection]);
-
-  const handleErrorCorrection = useCallback(() => {
-    const currentState = stateRef.current;
-    if (currentState.step !== 'error-correction') return;
-    setLoading(true);
-    if (role === 'alice') {
-      const bobSiftedKey = extractSiftedKey(currentState.bobOutcomes, currentState.keepMask);
-      const keyForEC = removeSampledBits(bobSiftedKey, currentState.sampleIndices);
-      const ecStats = performErrorCorrection(currentState.siftedKey, keyForEC, currentState.qber ?? 0);
-      setState(prev => ({ ...prev, ecStats, siftedKey: ecStats.correctedKey, step: 'privacy-amplification' }));
-      connection.sendMessage({ type: 'error_correction_stats', stats: ecStats });
-      toastRef.current({ title: 'Error Correction Complete' });
-    }
-    setLoading(false);
-  }, [role, connection]);
+  // Background rounds keep distilling fresh epochs while the chat is open
+  useEffect(() => {
+    refreshEngine.onEvent(event => {
+      if (event.kind === 'round-started') {
+        setRefreshStatus('Running background BB84 round...');
+      } else if (event.kind === 'round-complete') {
+        setRefreshStatus(
+          `Rekeyed to epoch ${event.epoch}: ${event.keyLength}-bit key (QBER ${(event.qber * 100).toFixed(2)}%)`
+        );
+      } else {
+        setRefreshStatus(`Background round failed: ${event.reason}`);
+      }
+    });
+  }, [refreshEngine]);
 
-  const handlePrivacyAmplification = useCallback(() => {
-    const currentState = stateRef.current;
-    if (currentState.step !== 'privacy-amplification' || role !== 'alice') return;
-    setLoading(true);
-    const paStats = performPrivacyAmplification(currentState.siftedKey, currentState.qber ?? 0, currentState.ecStats?.bitsRevealed ?? 0);
-    const finalKey = paStats.amplifiedKey;
-    const commitment = generateCommitment(finalKey);
-    setState(prev => ({ ...prev, paStats, finalKey, step: 'success' }));
-    connection.sendMessage({ type: 'final_key_commitment', commitment });
-    toastRef.current({ title: 'Privacy Amplification Complete' });
-    setLoading(false);
-  }, [role, connection]);
-
-  const handleEnterChat = useCallback(() => {
-    if (state.finalKey.length === 0) {
-      toast({
-        title: 'Key Not Ready',
-        description: 'Please wait for the final key to be generated',
-        variant: 'destructive',
-      });
-      return;
+  useEffect(() => {
+    if (role !== 'alice' || state.step !== 'chat' || config.keyRefreshInterval <= 0) return;
+    const timer = setInterval(() => refreshEngine.startRound(), config.keyRefreshInterval * 1000);
+    return () => clearInterval(timer);
+  }, [role, state.step, config.keyRefreshInterval, refreshEngine]);
+
+  // A dropped channel is resumed underneath; only a failed resume ends the run
+  useEffect(() => {
+    if (linkStatus?.state !== 'failed') return;
+    session.connectionLost(linkStatus.reason);
+    refreshEngine.reset();
+  }, [linkStatus, session, refreshEngine]);
+
+  const linkBanner = linkStatus?.state === 'reconnecting' && (
+    <Alert className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-auto max-w-md shadow-card">
+      <WifiOff className="h-4 w-4" />
+      <AlertDescription>
+        Connection interrupted. Reconnecting; the protocol resumes where it left off.
+      </AlertDescription>
+    </Alert>
+  );
+
+  // Imported circuits run on the density matrix, so they switch the backend too
+  const handleCircuitFile = async (file: File) => {
+    try {
+      const circuit = parseQasm(await file.text(), file.name);
+      setConfig(prev => ({ ...prev, backend: 'statevector', circuit }));
+    } catch (error) {
+      toast({ title: 'Invalid OpenQASM', description: (error as Error).message, variant: 'destructive' });
     }
-    setState(prev => ({ ...prev, step: 'chat' }));
-  }, [state.finalKey.length, toast]);
+  };
 
-  const handleAbort = useCallback((reason: string) => {
-    setState(prev => ({
+  const handleExportQasm = (version: QasmVersion) => {
+    const source = exportRunQasm({
+      qubits: session.receivedQubits,
+      state,
+      eve: config.eveEnabled ? config.eve : null,
+      channel: config.channel,
+      circuit: config.circuit,
+      protocol: config.protocol,
+      version,
+    });
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `bb84-run.qasm${version === 3 ? '3' : ''}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // B92 comes with its own abort threshold and cannot face attacks that wait for a basis announcement
+  const handleProtocolChange = (protocol: QkdProtocol) => {
+    setConfig(prev => ({
       ...prev,
-      step: 'aborted',
-      abortReason: reason,
+      protocol,
+      qberThreshold: QBER_THRESHOLDS[protocol],
+      eve:
+        protocol === 'b92' && BASIS_ANNOUNCEMENT_STRATEGIES.includes(prev.eve.strategy)
+          ? { ...prev.eve, strategy: DEFAULT_EVE_ATTACK.strategy }
+          : prev.eve,
     }));
-
-    toastRef.current({
-      title: 'Protocol Aborted',
-      description: reason,
-      variant: 'destructive',
-    });
-  }, []);
+  };
 
   const handleReset = () => {
-    setState({
-      step: 'idle',
-      aliceBits: [],
-      aliceBases: [],
-      bobBases: [],
-      bobOutcomes: [],
-      keepMask: [],
-      siftedKey: [],
-      sampleIndices: [],
-      qber: null,
-      ecStats: null,
-      paStats: null,
-      finalKey: [],
-      abortReason: null,
-    });
-    setPeerReady(false);
-    setHasSentBases(false);
+    session.reset();
+    refreshEngine.reset();
+    keyStore.clear();
+    setRefreshStatus(null);
   };
 
   if (state.step === 'chat') {
-    return <SecureChat role={role} connection={connection} finalKey={state.finalKey} onEnd={handleReset} />;
+    return (
+      <>
+        {linkBanner}
+        <SecureChat
+          role={role}
+          channel={channels.chat}
+          keyStore={keyStore}
+          mode={chatMode}
+          keyRefresh={config.keyRefreshInterval > 0}
+          refreshStatus={refreshStatus}
+          onEnd={handleReset}
+        />
+      </>
+    );
   }
 
   return (
     <div className="min-h-screen p-4 gradient-panel">
       <div className="max-w-6xl mx-auto space-y-4">
+        {linkBanner}
+
         {/* Header */}
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle className="text-2xl">BB84 Quantum Key Distribution</CardTitle>
+                <CardTitle className="text-2xl">{b92 ? 'B92' : 'BB84'} Quantum Key Distribution</CardTitle>
                 <CardDescription>
                   You are: <span className="font-bold capitalize">{role}</span>
                 </CardDescription>
@@ -442,11 +276,28 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
           <CardContent className="space-y-4">
             {/* Configuration */}
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Protocol</Label>
+                <Select
+                  value={config.protocol}
+                  onValueChange={(value) => handleProtocolChange(value as QkdProtocol)}
+                  disabled={state.step !== 'idle'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="bb84">BB84 (four states)</SelectItem>
+                    <SelectItem value="b92">B92 (two states)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label>Quantum Backend</Label>
                 <Select
                   value={config.backend}
-                  onValueChange={(value) => setConfig(prev => ({ ...prev, backend: value as any }))}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, backend: value as QuantumBackend, circuit: value === 'statevector' ? prev.circuit : null }))}
                   disabled={state.step !== 'idle'}
                 >
                   <SelectTrigger>
@@ -455,6 +306,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                   <SelectContent>
                     <SelectItem value="qiskit">Qiskit</SelectItem>
                     <SelectItem value="pennylane">PennyLane</SelectItem>
+                    <SelectItem value="statevector">Statevector (density matrix)</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -470,9 +322,14 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="100">100</SelectItem>
                     <SelectItem value="200">200</SelectItem>
-                    <SelectItem value="500">500</SelectItem>
+                    <SelectItem value="1000">1,000</SelectItem>
+                    <SelectItem value="5000">5,000</SelectItem>
+                    <SelectItem value="10000">10,000</SelectItem>
+                    <SelectItem value="20000">20,000</SelectItem>
+                    <SelectItem value="100000">100,000</SelectItem>
+                    <SelectItem value="500000">500,000</SelectItem>
+                    <SelectItem value="1000000">1,000,000</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -488,9 +345,89 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="10">10</SelectItem>
                     <SelectItem value="20">20</SelectItem>
-                    <SelectItem value="50">50</SelectItem>
+                    <SelectItem value="100">100</SelectItem>
+                    <SelectItem value="500">500</SelectItem>
+                    <SelectItem value="1000">1,000</SelectItem>
+                    <SelectItem value="5000">5,000</SelectItem>
+                    <SelectItem value="20000">20,000</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Reconciliation</Label>
+                <Select
+                  value={config.reconciliation}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, reconciliation: value as ReconciliationMethod }))}
+                  disabled={state.step !== 'idle'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="cascade">Cascade (interactive)</SelectItem>
+                    <SelectItem value="ldpc">LDPC (one-way)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {config.reconciliation === 'ldpc' && (
+                  <p className="text-xs text-muted-foreground">
+                    Short random codes leak 1.3–1.7× the Shannon limit, more than Cascade. On a noisy channel
+                    the finite-key bound needs about 100,000 qubits to leave a key.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Secrecy ε<sub>sec</sub></Label>
+                <Select
+                  value={config.epsilonSec.toString()}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, epsilonSec: parseFloat(value) }))}
+                  disabled={state.step !== 'idle'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0.000001">10⁻⁶</SelectItem>
+                    <SelectItem value="1e-8">10⁻⁸</SelectItem>
+                    <SelectItem value="1e-10">10⁻¹⁰</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Correctness ε<sub>cor</sub></Label>
+                <Select
+                  value={config.epsilonCor.toString()}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, epsilonCor: parseFloat(value) }))}
+                  disabled={state.step !== 'idle'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="1e-10">10⁻¹⁰</SelectItem>
+                    <SelectItem value="1e-15">10⁻¹⁵</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Key Refresh During Chat</Label>
+                <Select
+                  value={config.keyRefreshInterval.toString()}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, keyRefreshInterval: parseInt(value) }))}
+                  disabled={state.step !== 'idle'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="0">Off (2-minute chat)</SelectItem>
+                    <SelectItem value="15">Every 15 s</SelectItem>
+                    <SelectItem value="30">Every 30 s</SelectItem>
+                    <SelectItem value="60">Every 60 s</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -506,11 +443,177 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
               </div>
             </div>
 
+            {/* Quantum Channel */}
+            <div className="space-y-3 border-t pt-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Label>Quantum Channel</Label>
+                <Select
+                  value={channelPreset}
+                  onValueChange={(value) => setConfig(prev => ({ ...prev, channel: CHANNEL_PRESETS[value].params }))}
+                  disabled={state.step !== 'idle'}
+                >
+                  <SelectTrigger className="w-52">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CHANNEL_PRESETS).map(([name, preset]) => (
+                      <SelectItem key={name} value={name}>{preset.label}</SelectItem>
+                    ))}
+                    {channelPreset === 'custom' && <SelectItem value="custom" disabled>Custom</SelectItem>}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {CHANNEL_FIELDS.map(({ name, label, step }) => (
+                  <div key={name} className="space-y-1">
+                    <Label htmlFor={`channel-${name}`} className="text-xs">{label}</Label>
+                    <Input
+                      id={`channel-${name}`}
+                      type="number"
+                      min={0}
+                      step={step}
+                      value={config.channel[name]}
+                      onChange={(e) => updateChannel(name, e.target.value)}
+                      disabled={state.step !== 'idle'}
+                    />
+                  </div>
+                ))}
+              </div>
+              {channelError ? (
+                <p className="text-xs text-destructive">{channelError}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Expected detection rate {(channelStats.detectionRate * 100).toFixed(2)}% and QBER{' '}
+                  {(channelStats.qber * 100).toFixed(2)}% without Eve. Lost qubits are discarded during sifting;
+                  Bob's settings are the ones applied.
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
+                <Label htmlFor="channel-circuit" className="text-xs">Custom Circuit (OpenQASM)</Label>
+                {config.circuit ? (
+                  <>
+                    <Badge variant="secondary">
+                      {config.circuit.name}: {config.circuit.operations.length} operations
+                    </Badge>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setConfig(prev => ({ ...prev, circuit: null }))}
+                      disabled={state.step !== 'idle'}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <Input
+                    id="channel-circuit"
+                    type="file"
+                    accept=".qasm,.qasm3,.txt"
+                    className="w-64"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = '';
+                      if (file) handleCircuitFile(file);
+                    }}
+                    disabled={state.step !== 'idle'}
+                  />
+                )}
+                <span className="text-xs text-muted-foreground">
+                  A single-qubit program applied to every photon after Eve, on the statevector backend
+                </span>
+              </div>
+            </div>
+
             {config.eveEnabled && (
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
-                <AlertDescription>
-                  Eve is intercepting and measuring qubits, which will increase the QBER and likely cause the protocol to abort.
+                <AlertDescription className="space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Attack Strategy</Label>
+                      <Select
+                        value={config.eve.strategy}
+                        onValueChange={(value) => setConfig(prev => ({ ...prev, eve: { ...prev.eve, strategy: value as EveStrategyName } }))}
+                        disabled={state.step !== 'idle'}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(EVE_STRATEGY_LABELS).map(([name, label]) => (
+                            <SelectItem
+                              key={name}
+                              value={name}
+                              disabled={b92 && BASIS_ANNOUNCEMENT_STRATEGIES.includes(name as EveStrategyName)}
+                            >
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {config.eve.strategy === 'partial' && (
+                      <div className="space-y-1">
+                        <Label htmlFor="eve-fraction" className="text-xs">Intercepted Fraction</Label>
+                        <Input
+                          id="eve-fraction"
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={config.eve.fraction}
+                          onChange={(e) => setConfig(prev => ({ ...prev, eve: { ...prev.eve, fraction: parseFloat(e.target.value) || 0 } }))}
+                          disabled={state.step !== 'idle'}
+                        />
+                      </div>
+                    )}
+                    {config.eve.strategy === 'fixed-basis' && (
+                      <div className="space-y-1">
+                        <Label className="text-xs">Eve's Basis</Label>
+                        <Select
+                          value={config.eve.basis.toString()}
+                          onValueChange={(value) => setConfig(prev => ({ ...prev, eve: { ...prev.eve, basis: value === '1' ? 1 : 0 } }))}
+                          disabled={state.step !== 'idle'}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0">Rectilinear (+)</SelectItem>
+                            <SelectItem value="1">Diagonal (×)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                    {config.eve.strategy === 'pns' && (
+                      <div className="space-y-1">
+                        <Label htmlFor="eve-mu" className="text-xs">Mean Photon Number μ</Label>
+                        <Input
+                          id="eve-mu"
+                          type="number"
+                          min={0.01}
+                          max={10}
+                          step={0.05}
+                          value={config.eve.meanPhotonNumber}
+                          onChange={(e) => setConfig(prev => ({ ...prev, eve: { ...prev.eve, meanPhotonNumber: parseFloat(e.target.value) || 0 } }))}
+                          disabled={state.step !== 'idle'}
+                        />
+                      </div>
+                    )}
+                  </div>
+                  {eveImpact && b92 ? (
+                    <p className="text-xs">
+                      Expected figures are only worked out for BB84. Under B92 full intercept-resend causes about 33%
+                      QBER on conclusive results, and the Breidbart measurement learns nothing.
+                    </p>
+                  ) : eveImpact ? (
+                    <p className="text-xs">
+                      Eve learns about {eveImpact.information.toFixed(2)} bits per sifted bit and causes a QBER of{' '}
+                      {(eveImpact.qber * 100).toFixed(1)}% on an otherwise ideal channel.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-destructive">{eveError}</p>
+                  )}
                 </AlertDescription>
               </Alert>
             )}
@@ -530,10 +633,10 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
             <CardContent className="space-y-3">
               <Button
                 onClick={handlePrepare}
-                disabled={role !== 'alice' || state.step !== 'idle' || loading}
+                disabled={role !== 'alice' || state.step !== 'idle' || busy}
                 className="w-full"
               >
-                {loading && role === 'alice' && state.step === 'idle' ? (
+                {busy && role === 'alice' && state.step === 'idle' ? (
                   <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Preparing...</>
                 ) : (
                   <><Send className="mr-2 h-4 w-4" />Prepare & Send Qubits</>
@@ -549,8 +652,8 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                     initial="hidden"
                     animate="visible"
                   >
-                    {state.aliceBits.slice(0, 50).map((bit, i) => (
-                      <Qubit key={i} bit={bit} basis={state.aliceBases[i]} />
+                    {state.aliceBits.toBits(0, 50).map((bit, i) => (
+                      <Qubit key={i} bit={bit} basis={state.aliceBases.get(i)} protocol={config.protocol} />
                     ))}
                   </motion.div>
                 </div>
@@ -564,7 +667,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                       <AnimatedCounter value={state.siftedKey.length} />
                     </span>
                   </div>
-                  <Progress value={(state.siftedKey.length / (config.numQubits / 2)) * 100} />
+                  <Progress value={Math.min(100, (state.siftedKey.length / expectedSifted) * 100)} />
                 </div>
               )}
             </CardContent>
@@ -581,10 +684,10 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
             <CardContent className="space-y-3">
               <Button
                 onClick={handleMeasure}
-                disabled={role !== 'bob' || !peerReady || state.step !== 'idle' || loading}
+                disabled={role !== 'bob' || !state.peerReady || state.step !== 'idle' || busy}
                 className="w-full"
               >
-                {loading && role === 'bob' ? (
+                {busy && role === 'bob' ? (
                   <><Loader2 className="mr-2 h-4 w-4 animate-spin" />Measuring...</>
                 ) : (
                   <><Radio className="mr-2 h-4 w-4" />Measure Qubits</>
@@ -600,21 +703,34 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                     initial="hidden"
                     animate="visible"
                   >
-                    {state.bobOutcomes.slice(0, 50).map((bit, i) => {
-                      const isMatch = state.aliceBases[i] === state.bobBases[i];
+                    {state.bobOutcomes.toBits(0, 50).map((bit, i) => {
+                      // Alice's bases are only known after she announces them during sifting
+                      const isMatch = state.aliceBases.length === 0 || state.aliceBases.get(i) === state.bobBases.get(i);
                       return (
                         <Qubit
                           key={i}
                           bit={bit}
-                          basis={state.bobBases[i]}
-                          isMismatched={!isMatch} // Highlight if bases DON'T match
+                          basis={state.bobBases.get(i)}
+                          isMismatched={b92 ? bit === 0 : !isMatch} // Highlight mismatched bases (B92: inconclusive results)
+                          isFaded={state.detected.length > 0 && state.detected.get(i) === 0} // No click: the photon was lost
                         />
                       );
                     })}
                   </motion.div>
                   <p className="text-xs text-muted-foreground pt-2">
-                    <span className="text-destructive font-bold">Red</span> qubits indicate where Bob's basis choice was incorrect. These will be discarded during sifting.
+                    <span className="text-destructive font-bold">Red</span> qubits indicate where{' '}
+                    {b92 ? "Bob's result was inconclusive (outcome 0)" : "Bob's basis choice was incorrect"} and faded ones
+                    were never detected. Both will be discarded during sifting.
                   </p>
+                  {role === 'bob' && (
+                    <div className="flex gap-2">
+                      {([2, 3] as QasmVersion[]).map(version => (
+                        <Button key={version} size="sm" variant="outline" onClick={() => handleExportQasm(version)}>
+                          <Download className="mr-2 h-4 w-4" />OpenQASM {version}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
 
@@ -626,7 +742,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                       <AnimatedCounter value={state.siftedKey.length} />
                     </span>
                   </div>
-                  <Progress value={(state.siftedKey.length / (config.numQubits / 2)) * 100} />
+                  <Progress value={Math.min(100, (state.siftedKey.length / expectedSifted) * 100)} />
                 </div>
               )}
             </CardContent>
@@ -643,7 +759,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
               </CardHeader>
               <CardContent className="space-y-3">
                 <p className="text-sm text-muted-foreground">
-                  Eve is intercepting the qubits, measuring them with her own random bases, and resending them to Bob.
+                  Attack: {EVE_STRATEGY_LABELS[config.eve.strategy]}. Only the qubits Eve holds a guess for are shown in full.
                 </p>
                 {state.eveBases && state.eveBases.length > 0 && (
                   <div className="space-y-2 text-sm">
@@ -656,8 +772,14 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                         initial="hidden"
                         animate="visible"
                       >
-                        {state.eveOutcomes?.slice(0, 50).map((bit, i) => (
-                          <Qubit key={i} bit={bit} basis={state.eveBases?.[i] ?? 0} isMismatched={state.aliceBases[i] !== state.eveBases?.[i]} />
+                        {state.eveOutcomes?.toBits(0, 50).map((bit, i) => (
+                          <Qubit
+                            key={i}
+                            bit={bit}
+                            basis={state.eveBases?.get(i) ?? 0}
+                            isMismatched={state.aliceBases.length === 0 || state.aliceBases.get(i) !== state.eveBases?.get(i)}
+                            isFaded={state.eveKnown?.get(i) === 0}
+                          />
                         ))}
                       </motion.div>
                     </div>
@@ -671,16 +793,28 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
           )}
         </div>
 
+        {eveKnowledge && <EveKnowledgeCard knowledge={eveKnowledge} />}
+
         {/* Protocol Actions */}
         <Card>
           <CardHeader>
             <CardTitle>Protocol Steps</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
+            {state.progress && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-center text-sm">
+                  <Label>{state.progress.task}...</Label>
+                  <span className="text-muted-foreground">{Math.round(state.progress.value * 100)}%</span>
+                </div>
+                <Progress value={state.progress.value * 100} />
+              </div>
+            )}
+
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
               <Button
                 onClick={handleSifting}
-                disabled={state.step !== 'sifting' || loading}
+                disabled={state.step !== 'sifting' || busy || (b92 && role !== 'bob')}
                 variant={state.step === 'sifting' ? 'default' : 'outline'}
               >
                 Sifting
@@ -688,7 +822,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
 
               <Button
                 onClick={handleQBEREstimation}
-                disabled={state.step !== 'qber' || role !== 'alice' || loading}
+                disabled={state.step !== 'qber' || role !== 'alice' || busy}
                 variant={state.step === 'qber' ? 'default' : 'outline'}
               >
                 QBER Check
@@ -696,7 +830,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
 
               <Button
                 onClick={handleErrorCorrection}
-                disabled={state.step !== 'error-correction' || loading}
+                disabled={state.step !== 'error-correction' || role !== reconciliationInitiator || busy}
                 variant={state.step === 'error-correction' ? 'default' : 'outline'}
               >
                 Error Correction
@@ -704,7 +838,7 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
 
               <Button
                 onClick={handlePrivacyAmplification}
-                disabled={state.step !== 'privacy-amplification' || role !== 'alice' || loading}
+                disabled={state.step !== 'privacy-amplification' || role !== 'alice' || busy}
                 variant={state.step === 'privacy-amplification' ? 'default' : 'outline'}
               >
                 Privacy Amplification
@@ -714,10 +848,12 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
             {/* Sifting Visualization */}
             {state.keepMask.length > 0 && (
               <SiftedQubitDisplay
-                aliceBits={state.aliceBits}
-                aliceBases={state.aliceBases}
-                bobBases={state.bobBases}
-                keepMask={state.keepMask}
+                bits={(role === 'alice' ? state.aliceBits : b92 ? b92BobBits(state.bobBases.slice(0, 50)) : state.bobOutcomes).toBits(0, 50)}
+                bases={(role === 'alice' ? state.aliceBases : state.bobBases).toBits(0, 50)}
+                peerBases={(role === 'alice' ? state.bobBases : state.aliceBases).toBits(0, 50)}
+                peerName={role === 'alice' ? 'Bob' : 'Alice'}
+                keepMask={state.keepMask.toFlags(0, 50)}
+                protocol={config.protocol}
               />
             )}
 
@@ -733,15 +869,28 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
             {state.ecStats && (
               <Alert>
                 <AlertDescription>
-                  Error Correction: {state.ecStats.initialErrors} errors corrected in {state.ecStats.parityRounds} rounds
+                  Error Correction ({state.ecStats.method === 'cascade' ? 'Cascade' : 'LDPC'}): {state.ecStats.errorsCorrected} errors corrected,{' '}
+                  {state.ecStats.bitsRevealed} bits revealed over {state.ecStats.roundTrips} round trip{state.ecStats.roundTrips === 1 ? '' : 's'}
+                  {state.ecStats.efficiency !== null && <> (f = {state.ecStats.efficiency.toFixed(2)})</>}
                 </AlertDescription>
               </Alert>
             )}
 
             {state.paStats && (
-              <Alert>
-                <AlertDescription>
-                  Privacy Amplification: <AnimatedCounter value={state.paStats.inputLength} /> bits → <AnimatedCounter value={state.paStats.outputLength} /> bits
+              <Alert variant={state.paStats.analysis.secretKeyLength > 0 ? 'default' : 'destructive'}>
+                <AlertDescription className="space-y-2">
+                  <div>
+                    Privacy Amplification: <AnimatedCounter value={state.paStats.inputLength} /> bits → <AnimatedCounter value={state.paStats.outputLength} /> bits
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-xs font-mono">
+                    <span>Sample errors: {state.paStats.analysis.sampleErrors}/{state.paStats.analysis.sampleSize}</span>
+                    <span>Fluctuation μ: {(state.paStats.analysis.statisticalDeviation * 100).toFixed(2)}%</span>
+                    <span>QBER bound Q+μ: {(state.paStats.analysis.qberUpperBound * 100).toFixed(2)}%</span>
+                    <span>n·h(Q+μ): −{Math.ceil(state.paStats.analysis.phaseErrorCost)}</span>
+                    <span>EC leakage: −{state.paStats.analysis.reconciliationLeak}</span>
+                    <span>log₂(2/ε²sec·εcor): −{Math.ceil(state.paStats.analysis.securityCost)}</span>
+                    <span>Secret length ℓ: {state.paStats.analysis.secretKeyLength}</span>
+                  </div>
                 </AlertDescription>
               </Alert>
             )}
@@ -750,7 +899,8 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
               <div className="space-y-2">
                 <Label>Final Key (<AnimatedCounter value={state.finalKey.length} /> bits):</Label>
                 <div className="font-mono text-xs bg-muted p-3 rounded break-all">
-                  {bitsToHex(state.finalKey)}
+                  {bitsToHex(state.finalKey.toBits(0, KEY_DISPLAY_BITS))}
+                  {state.finalKey.length > KEY_DISPLAY_BITS && '…'}
                 </div>
               </div>
             )}
@@ -763,6 +913,16 @@ const BB84Protocol = ({ role, connection }: BB84ProtocolProps) => {
                     Key exchange successful! Choose how you'd like to continue.
                   </AlertDescription>
                 </Alert>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="otp-mode"
+                    checked={chatMode === 'otp'}
+                    onCheckedChange={(checked) => setChatMode(checked ? 'otp' : 'aes')}
+                  />
+                  <Label htmlFor="otp-mode" className="cursor-pointer">
+                    One-time pad mode ({otpCapacityBytes(state.finalKey.length)} bytes per direction)
+                  </Label>
+                </div>
                 <div className="flex flex-col gap-2 sm:flex-row">
                   <Button className="w-full sm:flex-1" onClick={handleEnterChat}>
                     Enter Secure Chat
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Activity } from 'lucide-react';
+import { CandidateInfo, ConnectionDiagnostics } from '@/types/bb84';
+import { WebRTCConnection } from '@/utils/webrtc';
+
+const REFRESH_INTERVAL_MS = 2000;
+const CANDIDATE_TYPES = ['host', 'srflx', 'prflx', 'relay'];
+
+interface ConnectionDiagnosticsDialogProps {
+  connection: WebRTCConnection;
+}
+
+function describe(candidate: CandidateInfo): string {
+  return `${candidate.type} ${candidate.protocol} ${candidate.address || '(hidden)'}:${candidate.port}`;
+}
+
+function countByType(candidates: CandidateInfo[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const candidate of candidates) {
+    counts[candidate.type] = (counts[candidate.type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+// Live ICE state, gathered candidates and the selected pair, from getStats()
+const ConnectionDiagnosticsDialog = ({ connection }: ConnectionDiagnosticsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<ConnectionDiagnostics | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const refresh = () => {
+      connection
+        .getDiagnostics()
+        .then(result => {
+          if (!cancelled) setDiagnostics(result);
+        })
+        .catch(error => console.error('Failed to read connection stats:', error));
+    };
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [open, connection]);
+
+  const renderCandidates = (label: string, candidates: CandidateInfo[]) => {
+    const counts = countByType(candidates);
+    return (
+      <div className="space-y-2">
+        <p className="text-sm font-medium">{label}</p>
+        <div className="flex flex-wrap gap-2">
+          {CANDIDATE_TYPES.map(type => (
+            <Badge key={type} variant={counts[type] ? 'default' : 'outline'}>
+              {type}: {counts[type] ?? 0}
+            </Badge>
+          ))}
+        </div>
+        {candidates.length > 0 && (
+          <ul className="text-xs font-mono text-muted-foreground space-y-1">
+            {candidates.map((candidate, index) => (
+              <li key={index}>{describe(candidate)}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="fixed bottom-4 left-4 z-40 shadow-card">
+          <Activity className="h-4 w-4 mr-2" />
+          Diagnostics
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Connection Diagnostics</DialogTitle>
+          <DialogDescription>
+            ICE candidates gathered on both sides and the pair the connection is using
+          </DialogDescription>
+        </DialogHeader>
+
+        {!diagnostics ? (
+          <p className="text-sm text-muted-foreground">Reading connection statistics...</p>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div className="p-2 bg-muted rounded">
+                <p className="text-xs text-muted-foreground">Connection</p>
+                <p className="font-medium">{diagnostics.connectionState}</p>
+              </div>
+              <div className="p-2 bg-muted rounded">
+                <p className="text-xs text-muted-foreground">ICE</p>
+                <p className="font-medium">{diagnostics.iceConnectionState}</p>
+              </div>
+              <div className="p-2 bg-muted rounded">
+                <p className="text-xs text-muted-foreground">Gathering</p>
+                <p className="font-medium">{diagnostics.iceGatheringState}</p>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Selected Candidate Pair</p>
+              {diagnostics.selectedPair ? (
+                <div className="text-xs font-mono p-2 bg-muted rounded space-y-1">
+                  <p>local:  {describe(diagnostics.selectedPair.local)}</p>
+                  <p>remote: {describe(diagnostics.selectedPair.remote)}</p>
+                  <p>
+                    rtt: {diagnostics.selectedPair.roundTripTime !== null
+                      ? `${(diagnostics.selectedPair.roundTripTime * 1000).toFixed(1)} ms`
+                      : 'n/a'}
+                    {' · '}sent {diagnostics.selectedPair.bytesSent} B · received {diagnostics.selectedPair.bytesReceived} B
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No pair selected yet</p>
+              )}
+            </div>
+
+            {renderCandidates('Local Candidates', diagnostics.localCandidates)}
+            {renderCandidates('Remote Candidates', diagnostics.remoteCandidates)}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ConnectionDiagnosticsDialog;
@@ -1,53 +1,152 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Copy, Check, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import SignalQRCode from '@/components/SignalQRCode';
+import QRScanner from '@/components/QRScanner';
+import { encodeSignal, parseSignalInput, signalLink } from '@/utils/signal-link';
 
 interface ConnectionSetupProps {
   isCreator: boolean;
-  onConnectionEstablished: (offer?: string, answer?: string) => void;
+  roomId: string;
+  /** Offer, answer and candidates go through the signaling server; nothing to paste */
+  automatic?: boolean;
+  onConnectionEstablished: (offer?: string, answer?: string) => void | Promise<void>;
   offer?: string;
   answer?: string;
+  /** Offer code from the link the joiner opened, pre-filled into the offer field */
+  initialOffer?: string;
   onContinue?: () => void;
 }
 
-const ConnectionSetup = ({ isCreator, onConnectionEstablished, offer, answer, onContinue }: ConnectionSetupProps) => {
-  const [offerSdp, setOfferSdp] = useState(offer || '');
-  const [answerSdp, setAnswerSdp] = useState(answer || '');
+const ConnectionSetup = ({
+  isCreator,
+  roomId,
+  automatic = false,
+  onConnectionEstablished,
+  offer,
+  answer,
+  initialOffer,
+  onContinue,
+}: ConnectionSetupProps) => {
+  const [peerCode, setPeerCode] = useState(initialOffer || '');
+  const [ownLink, setOwnLink] = useState('');
   const [copied, setCopied] = useState(false);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
-  // Update answer when it's generated
-  if (answer && answer !== answerSdp && !isCreator) {
-    setAnswerSdp(answer);
-  }
+  // Our offer (creator) or answer (joiner) as a compressed link
+  const ownDescription = isCreator ? offer : answer;
+  useEffect(() => {
+    if (!ownDescription) return;
+    let cancelled = false;
+    encodeSignal(ownDescription, roomId)
+      .then(token => {
+        if (!cancelled) setOwnLink(signalLink(isCreator ? 'offer' : 'answer', token));
+      })
+      .catch(error => console.error('Failed to encode connection link:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [ownDescription, roomId, isCreator]);
 
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     setCopied(true);
     toast({
       title: "Copied",
-      description: "Connection data copied to clipboard",
+      description: "Connection link copied to clipboard",
     });
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleConnect = () => {
+  /**
+   * Accepts a link, a bare code or the raw JSON description from the peer
+   */
+  const submit = async (text: string) => {
+    if (!text.trim()) return;
     setLoading(true);
-    setTimeout(() => {
+    try {
+      const payload = await parseSignalInput(text);
+      const expected = isCreator ? 'answer' : 'offer';
+      if (payload.type !== expected) {
+        throw new Error(`Expected your peer's ${expected}, but this is an ${payload.type}`);
+      }
+      if (payload.roomId !== null && payload.roomId !== roomId) {
+        throw new Error(`This code is for room ${payload.roomId}, not ${roomId}`);
+      }
       if (isCreator) {
-        onConnectionEstablished(undefined, answerSdp);
+        await onConnectionEstablished(undefined, payload.description);
       } else {
-        onConnectionEstablished(offerSdp);
+        await onConnectionEstablished(payload.description);
       }
+    } catch (error) {
+      toast({
+        title: "Invalid Connection Code",
+        description: error instanceof Error ? error.message : "Could not read the connection code",
+        variant: "destructive",
+      });
+    } finally {
       setLoading(false);
-    }, 500);
+    }
   };
 
+  const handleScan = (text: string) => {
+    setPeerCode(text);
+    submit(text);
+  };
+
+  const copyButton = (
+    <Button 
+      variant="outline" 
+      size="sm"
+      onClick={() => copyToClipboard(ownLink)}
+      disabled={!ownLink}
+    >
+      {copied ? (
+        <>
+          <Check className="h-4 w-4 mr-2" />
+          Copied
+        </>
+      ) : (
+        <>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </>
+      )}
+    </Button>
+  );
+
+  if (automatic) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4 gradient-panel">
+        <Card className="w-full max-w-2xl shadow-card">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-bold">Connecting to Peer</CardTitle>
+            <CardDescription>
+              The offer, answer and network candidates are exchanged through the signaling server
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {isCreator ? 'Waiting for your peer to join the room...' : 'Waiting for the connection to open...'}
+            </div>
+            <div className="p-4 bg-muted rounded-lg">
+              <p className="text-xs text-muted-foreground">
+                <strong>Note:</strong> The signaling server only relays connection data. You will still
+                compare a verification code with your peer before the protocol starts.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center p-4 gradient-panel">
       <Card className="w-full max-w-2xl shadow-card">
@@ -57,8 +156,8 @@ const ConnectionSetup = ({ isCreator, onConnectionEstablished, offer, answer, on
           </CardTitle>
           <CardDescription>
             {isCreator 
-              ? 'Copy the offer below and send it to your peer through a secure channel'
-              : 'Paste the offer you received from your peer'}
+              ? 'Send the link below to your peer, or let them scan the QR code'
+              : 'Paste the link you received from your peer, or scan their QR code'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -66,49 +165,35 @@ const ConnectionSetup = ({ isCreator, onConnectionEstablished, offer, answer, on
             <>
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
-                  <Label>Connection Offer (Share this)</Label>
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    onClick={() => copyToClipboard(offerSdp)}
-                  >
-                    {copied ? (
-                      <>
-                        <Check className="h-4 w-4 mr-2" />
-                        Copied
-                      </>
-                    ) : (
-                      <>
-                        <Copy className="h-4 w-4 mr-2" />
-                        Copy
-                      </>
-                    )}
-                  </Button>
+                  <Label>Connection Link (Share this)</Label>
+                  {copyButton}
                 </div>
                 <Textarea 
-                  value={offerSdp}
+                  value={ownLink}
                   readOnly
-                  className="font-mono text-xs h-32"
+                  className="font-mono text-xs h-24"
                   placeholder="Generating offer..."
                 />
+                {ownLink && <SignalQRCode value={ownLink} />}
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="answer">Connection Answer (Paste from peer)</Label>
+                <Label htmlFor="answer">Connection Answer (Paste or scan from peer)</Label>
                 <Textarea 
                   id="answer"
-                  value={answerSdp}
-                  onChange={(e) => setAnswerSdp(e.target.value)}
-                  className="font-mono text-xs h-32"
-                  placeholder="Paste the answer from your peer here..."
+                  value={peerCode}
+                  onChange={(e) => setPeerCode(e.target.value)}
+                  className="font-mono text-xs h-24"
+                  placeholder="Paste the answer link from your peer here..."
                 />
+                <QRScanner onScan={handleScan} />
               </div>
 
               <Button 
-                onClick={handleConnect}
+                onClick={() => submit(peerCode)}
                 className="w-full"
                 size="lg"
-                disabled={!answerSdp || loading}
+                disabled={!peerCode || loading}
               >
                 {loading ? (
                   <>
@@ -123,21 +208,22 @@ const ConnectionSetup = ({ isCreator, onConnectionEstablished, offer, answer, on
           ) : (
             <>
               <div className="space-y-2">
-                <Label htmlFor="offer">Connection Offer (Paste here)</Label>
+                <Label htmlFor="offer">Connection Offer (Paste or scan)</Label>
                 <Textarea 
                   id="offer"
-                  value={offerSdp}
-                  onChange={(e) => setOfferSdp(e.target.value)}
-                  className="font-mono text-xs h-32"
-                  placeholder="Paste the offer from your peer here..."
+                  value={peerCode}
+                  onChange={(e) => setPeerCode(e.target.value)}
+                  className="font-mono text-xs h-24"
+                  placeholder="Paste the offer link from your peer here..."
                 />
+                <QRScanner onScan={handleScan} />
               </div>
 
               <Button 
-                onClick={handleConnect}
+                onClick={() => submit(peerCode)}
                 className="w-full"
                 size="lg"
-                disabled={!offerSdp || loading}
+                disabled={!peerCode || loading}
               >
                 {loading ? (
                   <>
@@ -149,36 +235,21 @@ const ConnectionSetup = ({ isCreator, onConnectionEstablished, offer, answer, on
                 )}
               </Button>
 
-              {answerSdp && (
+              {ownLink && (
                 <>
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <Label>Connection Answer (Share this back)</Label>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => copyToClipboard(answerSdp)}
-                      >
-                        {copied ? (
-                          <>
-                            <Check className="h-4 w-4 mr-2" />
-                            Copied
-                          </>
-                        ) : (
-                          <>
-                            <Copy className="h-4 w-4 mr-2" />
-                            Copy
-                          </>
-                        )}
-                      </Button>
+                      {copyButton}
                     </div>
                     <Textarea 
-                      value={answerSdp}
+                      value={ownLink}
                       readOnly
-                      className="font-mono text-xs h-32"
+                      className="font-mono text-xs h-24"
                     />
+                    <SignalQRCode value={ownLink} />
                     <p className="text-sm text-muted-foreground">
-                      Send this answer back to your peer to complete the connection
+                      Send this answer back to your peer, or let them scan the QR code, to complete the connection
                     </p>
                   </div>
                   
@@ -188,7 +259,7 @@ const ConnectionSetup = ({ isCreator, onConnectionEstablished, offer, answer, on
                     size="lg"
                     variant="default"
                   >
-                    Continue to Role Selection
+                    Continue to Verification
                   </Button>
                 </>
               )}
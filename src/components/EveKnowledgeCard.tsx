@@ -0,0 +1,72 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Eye } from 'lucide-react';
+import { EveKnowledge } from '@/types/bb84';
+import { Label } from './ui/label';
+
+interface EveKnowledgeCardProps {
+  knowledge: EveKnowledge;
+}
+
+// Eve's information as a share of the key it refers to, stage by stage
+const EveKnowledgeCard = ({ knowledge }: EveKnowledgeCardProps) => {
+  const stages = [
+    { label: 'After sifting', bits: knowledge.afterSifting, of: knowledge.keyLength },
+    { label: 'After error correction', bits: knowledge.afterErrorCorrection, of: knowledge.keyLength },
+    ...(knowledge.finalKeyLength !== null && knowledge.afterPrivacyAmplification !== null
+      ? [{ label: 'After privacy amplification', bits: knowledge.afterPrivacyAmplification, of: knowledge.finalKeyLength }]
+      : []),
+  ];
+
+  return (
+    <Card className="border-destructive">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-destructive">
+          <Eye className="h-5 w-5" />
+          Eve's Knowledge
+        </CardTitle>
+        <CardDescription>
+          Mutual information between Eve and the key, estimated from her guesses and the parities she overheard
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <Label className="text-xs text-muted-foreground">Key Bits Guessed</Label>
+            <p className="font-bold">
+              {knowledge.guessed.toLocaleString()} / {knowledge.keyLength.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Guesses Correct</Label>
+            <p className="font-bold">{(knowledge.correctFraction * 100).toFixed(1)}%</p>
+          </div>
+          <div>
+            <Label className="text-xs text-muted-foreground">Parity Bits Overheard</Label>
+            <p className="font-bold">{knowledge.parityLeak.toLocaleString()}</p>
+          </div>
+        </div>
+
+        {stages.map(({ label, bits, of }) => (
+          <div key={label} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <Label>{label}</Label>
+              <span className="text-muted-foreground">
+                {bits < 0.01 && bits > 0 ? bits.toExponential(1) : bits.toFixed(bits < 10 ? 2 : 0)} bits
+                {of > 0 && ` (${((bits / of) * 100).toFixed(2)}% of ${of.toLocaleString()})`}
+              </span>
+            </div>
+            <Progress value={of > 0 ? (bits / of) * 100 : 0} />
+          </div>
+        ))}
+
+        <p className="text-xs text-muted-foreground">
+          Privacy amplification hashes the key down to a length Eve knows almost nothing about. Only Bob's view shows
+          this card, since the simulation of Eve runs with his measurement.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EveKnowledgeCard;
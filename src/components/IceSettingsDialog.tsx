@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, Settings2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { IceServerEntry, IceSettings } from '@/types/bb84';
+import {
+  DEFAULT_ICE_SETTINGS,
+  loadIceSettings,
+  resetIceSettings,
+  saveIceSettings,
+  validateIceServer,
+} from '@/utils/ice-config';
+
+// STUN/TURN servers and relay policy, stored in this browser and used for new connections
+const IceSettingsDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<IceSettings>(loadIceSettings);
+  const { toast } = useToast();
+
+  const handleOpenChange = (next: boolean) => {
+    // Discard unsaved edits
+    if (next) setSettings(loadIceSettings());
+    setOpen(next);
+  };
+
+  const updateServer = (index: number, patch: Partial<IceServerEntry>) => {
+    setSettings({
+      ...settings,
+      servers: settings.servers.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)),
+    });
+  };
+
+  const addServer = () => {
+    setSettings({ ...settings, servers: [...settings.servers, { urls: '' }] });
+  };
+
+  const removeServer = (index: number) => {
+    setSettings({ ...settings, servers: settings.servers.filter((_, i) => i !== index) });
+  };
+
+  const errors = settings.servers.map(validateIceServer);
+  const hasTurn = settings.servers.some(entry => /^turns?:/i.test(entry.urls.trim()));
+  const relayWithoutTurn = settings.relayOnly && !hasTurn;
+
+  const handleSave = () => {
+    saveIceSettings(settings);
+    setOpen(false);
+    toast({
+      title: "Network Settings Saved",
+      description: "New connections will use these ICE servers",
+    });
+  };
+
+  const handleReset = () => {
+    resetIceSettings();
+    setSettings(DEFAULT_ICE_SETTINGS);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full">
+          <Settings2 className="h-4 w-4 mr-2" />
+          Network Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>ICE Servers</DialogTitle>
+          <DialogDescription>
+            STUN finds your public address; TURN relays traffic when a direct path is blocked.
+            On an offline network, point these at a local server (e.g. coturn).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto pr-1">
+          {settings.servers.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              No servers: only host candidates on the local network will be used.
+            </p>
+          )}
+          {settings.servers.map((entry, index) => {
+            const isTurn = /^turns?:/i.test(entry.urls.trim());
+            return (
+              <div key={index} className="space-y-2 p-3 border rounded-lg">
+                <div className="flex gap-2">
+                  <Input
+                    value={entry.urls}
+                    onChange={(e) => updateServer(index, { urls: e.target.value })}
+                    placeholder="turn:192.168.1.10:3478"
+                    className="font-mono text-sm"
+                  />
+                  <Button variant="outline" size="icon" onClick={() => removeServer(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {isTurn && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={entry.username ?? ''}
+                      onChange={(e) => updateServer(index, { username: e.target.value })}
+                      placeholder="Username"
+                    />
+                    <Input
+                      type="password"
+                      value={entry.credential ?? ''}
+                      onChange={(e) => updateServer(index, { credential: e.target.value })}
+                      placeholder="Credential"
+                    />
+                  </div>
+                )}
+                {errors[index] && (
+                  <p className="text-xs text-destructive">{errors[index]}</p>
+                )}
+              </div>
+            );
+          })}
+          <Button variant="outline" size="sm" onClick={addServer}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Server
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+          <div>
+            <Label htmlFor="relay-only">Relay only</Label>
+            <p className="text-xs text-muted-foreground">Never expose local or public addresses; all traffic goes through TURN</p>
+          </div>
+          <Switch
+            id="relay-only"
+            checked={settings.relayOnly}
+            onCheckedChange={(checked) => setSettings({ ...settings, relayOnly: checked })}
+          />
+        </div>
+        {relayWithoutTurn && (
+          <p className="text-xs text-destructive">Relay only needs at least one TURN server.</p>
+        )}
+
+        <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+          <div>
+            <Label htmlFor="json-frames">JSON frames</Label>
+            <p className="text-xs text-muted-foreground">Send readable JSON instead of the compact binary encoding (for debugging)</p>
+          </div>
+          <Switch
+            id="json-frames"
+            checked={settings.wireFormat === 'json'}
+            onCheckedChange={(checked) => setSettings({ ...settings, wireFormat: checked ? 'json' : 'binary' })}
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleReset}>
+            Restore Defaults
+          </Button>
+          <Button onClick={handleSave} disabled={errors.some(Boolean) || relayWithoutTurn}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IceSettingsDialog;
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+import { Button } from '@/components/ui/button';
+import { Camera, CameraOff, ImageUp } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface QRScannerProps {
+  onScan: (text: string) => void;
+}
+
+// One offscreen canvas is reused for every frame
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+function decodeImage(source: CanvasImageSource, width: number, height: number): string | null {
+  const canvas = (scratchCanvas ??= document.createElement('canvas'));
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, width, height);
+  const image = context.getImageData(0, 0, width, height);
+  return jsQR(image.data, width, height)?.data ?? null;
+}
+
+// Reads a connection QR code from the camera or from an image file
+const QRScanner = ({ onScan }: QRScannerProps) => {
+  const [scanning, setScanning] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const onScanRef = useRef(onScan);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!scanning) return;
+
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const tick = () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        const text = decodeImage(video, video.videoWidth, video.videoHeight);
+        if (text) {
+          setScanning(false);
+          onScanRef.current(text);
+          return;
+        }
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        if (stopped) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = media;
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          videoRef.current.play();
+        }
+        frame = requestAnimationFrame(tick);
+      })
+      .catch(error => {
+        console.error('Camera error:', error);
+        toast({
+          title: "Camera Unavailable",
+          description: "Allow camera access or upload a photo of the QR code instead",
+          variant: "destructive",
+        });
+        setScanning(false);
+      });
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [scanning, toast]);
+
+  const handleFile = async (file: File) => {
+    try {
+      const bitmap = await createImageBitmap(file);
+      const text = decodeImage(bitmap, bitmap.width, bitmap.height);
+      bitmap.close();
+      if (text) {
+        onScan(text);
+      } else {
+        toast({
+          title: "No QR Code Found",
+          description: "Try a sharper image with the whole code in view",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Image decode error:', error);
+      toast({
+        title: "Unreadable Image",
+        description: "The selected file could not be opened as an image",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" onClick={() => setScanning(!scanning)}>
+          {scanning ? (
+            <>
+              <CameraOff className="h-4 w-4 mr-2" />
+              Stop Camera
+            </>
+          ) : (
+            <>
+              <Camera className="h-4 w-4 mr-2" />
+              Scan QR Code
+            </>
+          )}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <ImageUp className="h-4 w-4 mr-2" />
+          Upload QR Image
+        </Button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleFile(file);
+          e.target.value = '';
+        }}
+      />
+      {scanning && (
+        <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+      )}
+    </div>
+  );
+};
+
+export default QRScanner;
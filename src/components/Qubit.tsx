@@ -1,14 +1,18 @@
 import { motion } from 'framer-motion';
-import { Bit, Basis } from '@/types/bb84';
+import { Bit, Basis, QkdProtocol } from '@/types/bb84';
 
 interface QubitProps {
   bit: Bit;
   basis: Basis;
   isMismatched?: boolean;
   isFaded?: boolean;
+  protocol?: QkdProtocol; // B92 draws the state of the bit; the basis it belongs to follows from it
 }
 
-const Qubit = ({ bit, basis, isMismatched = false, isFaded = false }: QubitProps) => {
+const Qubit = ({ bit, basis: measuredBasis, isMismatched = false, isFaded = false, protocol = 'bb84' }: QubitProps) => {
+  const b92 = protocol === 'b92';
+  const basis: Basis = b92 ? bit : measuredBasis;
+
   const variants = {
     hidden: { opacity: 0, scale: 0.5 },
     visible: { opacity: 1, scale: 1 },
@@ -16,6 +20,9 @@ const Qubit = ({ bit, basis, isMismatched = false, isFaded = false }: QubitProps
   };
 
   const getPolarization = () => {
+    if (b92) { // |0⟩ or |+⟩
+      return bit === 0 ? 'rotate(0)' : 'rotate(45)';
+    }
     if (basis === 0) { // Rectilinear
       return bit === 0 ? 'rotate(0)' : 'rotate(90)';
     } else { // Diagonal
@@ -32,7 +39,7 @@ const Qubit = ({ bit, basis, isMismatched = false, isFaded = false }: QubitProps
       animate={isFaded ? 'faded' : 'visible'}
       transition={{ duration: 0.3 }}
       className="relative w-8 h-8 flex items-center justify-center"
-      title={`Basis: ${basis === 0 ? '+' : 'x'}, Bit: ${bit}`}
+      title={b92 ? `State: ${bit === 0 ? '|0⟩' : '|+⟩'}, Bit: ${bit}` : `Basis: ${basis === 0 ? '+' : 'x'}, Bit: ${bit}`}
     >
       <svg
         viewBox="0 0 24 24"
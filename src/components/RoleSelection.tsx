@@ -98,7 +98,7 @@ const RoleSelection = ({ onRoleSelected, aliceTaken, bobTaken, isReady = true }:
           {!isReady && (
             <div className="mt-6 p-4 bg-muted rounded-lg">
               <p className="text-sm text-muted-foreground text-center">
-                Waiting for connection to establish...
+                Waiting for the connection and passcode check to complete...
               </p>
             </div>
           )}
@@ -6,13 +6,16 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Copy, Check } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import IceSettingsDialog from '@/components/IceSettingsDialog';
 
 interface RoomSetupProps {
   onRoomCreated: (roomId: string, passcode: string, isCreator: boolean) => void;
+  /** Room ID from an opened invitation link; opens the join tab pre-filled */
+  initialRoomId?: string;
 }
 
-const RoomSetup = ({ onRoomCreated }: RoomSetupProps) => {
-  const [roomId, setRoomId] = useState('');
+const RoomSetup = ({ onRoomCreated, initialRoomId }: RoomSetupProps) => {
+  const [roomId, setRoomId] = useState(initialRoomId || '');
   const [passcode, setPasscode] = useState('');
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
@@ -76,7 +79,7 @@ const RoomSetup = ({ onRoomCreated }: RoomSetupProps) => {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="create" className="w-full">
+          <Tabs defaultValue={initialRoomId ? 'join' : 'create'} className="w-full">
             <TabsList className="grid w-full grid-cols-2">
               <TabsTrigger value="create">Create Room</TabsTrigger>
               <TabsTrigger value="join">Join Room</TabsTrigger>
@@ -156,6 +159,11 @@ const RoomSetup = ({ onRoomCreated }: RoomSetupProps) => {
                   onChange={(e) => setRoomId(e.target.value.toUpperCase())}
                   className="font-mono"
                 />
+                {initialRoomId && (
+                  <p className="text-xs text-muted-foreground">
+                    Filled in from the invitation link. Enter the passcode your peer gave you.
+                  </p>
+                )}
               </div>
               
               <div className="space-y-2">
@@ -179,6 +187,10 @@ const RoomSetup = ({ onRoomCreated }: RoomSetupProps) => {
               </Button>
             </TabsContent>
           </Tabs>
+
+          <div className="mt-4">
+            <IceSettingsDialog />
+          </div>
         </CardContent>
       </Card>
     </div>
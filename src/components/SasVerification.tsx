@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ShieldCheck, ShieldX, Loader2 } from 'lucide-react';
+import { deriveSAS } from '@/utils/sas';
+
+interface SasVerificationProps {
+  roomId: string;
+  offerSdp: string;
+  answerSdp: string;
+  onConfirmed: () => void;
+  onMismatch: () => void;
+}
+
+const SasVerification = ({ roomId, offerSdp, answerSdp, onConfirmed, onMismatch }: SasVerificationProps) => {
+  const [symbols, setSymbols] = useState<{ emoji: string; name: string }[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    deriveSAS(roomId, offerSdp, answerSdp)
+      .then(result => {
+        if (!cancelled) setSymbols(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not derive verification code');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, offerSdp, answerSdp]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 gradient-panel">
+      <Card className="w-full max-w-2xl shadow-card">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 w-16 h-16 rounded-full gradient-quantum flex items-center justify-center quantum-glow">
+            <ShieldCheck className="w-8 h-8 text-white" />
+          </div>
+          <CardTitle className="text-2xl font-bold">Verify Your Peer</CardTitle>
+          <CardDescription>
+            Compare these symbols with your peer over a call or in person. They are derived from both
+            connection certificates and the room ID, so an attacker who swapped the offer or answer
+            cannot make them match.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {error ? (
+            <div className="p-4 bg-destructive/10 text-destructive text-sm rounded text-center">
+              {error}
+            </div>
+          ) : !symbols ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Deriving verification code...
+            </div>
+          ) : (
+            <div className="grid grid-cols-4 sm:grid-cols-7 gap-3">
+              {symbols.map((symbol, index) => (
+                <div key={index} className="flex flex-col items-center gap-1 p-2 bg-muted rounded-lg">
+                  <span className="text-3xl">{symbol.emoji}</span>
+                  <span className="text-xs text-muted-foreground">{symbol.name}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <Button variant="destructive" size="lg" onClick={onMismatch}>
+              <ShieldX className="mr-2 h-4 w-4" />
+              They Don't Match
+            </Button>
+            <Button size="lg" onClick={onConfirmed} disabled={!symbols}>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              They Match
+            </Button>
+          </div>
+
+          <div className="p-4 bg-muted rounded-lg">
+            <p className="text-xs text-muted-foreground">
+              <strong>Note:</strong> Only confirm if every symbol matches in the same order. A mismatch
+              means someone is intercepting the connection; it will be closed.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SasVerification;
@@ -4,18 +4,25 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Send, Lock, Clock, Home } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Send, Lock, Clock, Home, Loader2, KeyRound, RefreshCw } from 'lucide-react';
 import { Role } from '@/types/quantum';
-import { Bit, BB84Message } from '@/types/bb84';
-import { KeyCipher } from '@/utils/encryption';
-import { WebRTCConnection } from '@/utils/webrtc';
+import { ChannelMessage, ChatMode, KeyEpoch, MessageLink } from '@/types/bb84';
+import { EpochCipher } from '@/utils/encryption';
+import { OneTimePadCipher } from '@/utils/otp';
+import { KeyStore } from '@/utils/key-store';
+import { parseChannelMessage } from '@/utils/message-schema';
 import { useToast } from '@/hooks/use-toast';
 import { Link } from 'react-router-dom';
 
 interface SecureChatProps {
   role: Role;
-  connection: WebRTCConnection;
-  finalKey: Bit[];
+  channel: MessageLink;
+  keyStore: KeyStore;
+  mode: ChatMode;
+  keyRefresh: boolean; // background rounds rekey the chat, so it is not time-boxed
+  refreshStatus: string | null;
   onEnd: () => void;
 }
 
@@ -27,16 +34,45 @@ interface ChatMessage {
 
 const CHAT_DURATION = 120; // 2 minutes in seconds
 
-const SecureChat = ({ role, connection, finalKey, onEnd }: SecureChatProps) => {
+const SecureChat = ({ role, channel, keyStore, mode, keyRefresh, refreshStatus, onEnd }: SecureChatProps) => {
   const { toast } = useToast();
-  const [cipher] = useState(() => new KeyCipher(finalKey));
+  const [cipher] = useState(() =>
+    mode === 'aes' && (role === 'alice' || role === 'bob') ? new EpochCipher(role) : null
+  );
+  const [pad] = useState(() =>
+    mode === 'otp' && (role === 'alice' || role === 'bob') ? new OneTimePadCipher([], role) : null
+  );
+  const [padRemaining, setPadRemaining] = useState(0);
+  const [epoch, setEpoch] = useState(-1);
+  const [keyBits, setKeyBits] = useState(0);
+  const installedEpochRef = useRef(-1);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [timeRemaining, setTimeRemaining] = useState(CHAT_DURATION);
   const scrollRef = useRef<HTMLDivElement>(null);
 
+  // Install every epoch key as it is distilled; erased epochs are retired
+  useEffect(() => {
+    const install = (entry: KeyEpoch) => {
+      if (entry.epoch <= installedEpochRef.current) return;
+      installedEpochRef.current = entry.epoch;
+      const keyBits = entry.key.toBits();
+      cipher?.install(entry.epoch, keyBits);
+      pad?.addKeyMaterial(keyBits);
+      setEpoch(entry.epoch);
+      setKeyBits(keyStore.totalBits);
+      setPadRemaining(pad?.remainingBytes ?? 0);
+    };
+    keyStore.entries().forEach(install);
+    return keyStore.subscribe({
+      onKey: install,
+      onErase: before => cipher?.retire(before),
+    });
+  }, [keyStore, cipher, pad]);
+
   // Countdown timer
   useEffect(() => {
+    if (keyRefresh) return;
     const timer = setInterval(() => {
       setTimeRemaining(prev => {
         if (prev <= 1) {
@@ -49,36 +85,56 @@ const SecureChat = ({ role, connection, finalKey, onEnd }: SecureChatProps) => {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, []);
+  }, [keyRefresh]);
 
   // Handle incoming messages
   useEffect(() => {
-    const handleMessage = (data: BB84Message) => {
-      if (data.type === 'chat_message') {
+    const peerRole: Role = role === 'alice' ? 'bob' : 'alice';
+    const reject = (error: Error) => {
+      console.error('Incoming message rejected:', error);
+      toast({
+        title: 'Message Rejected',
+        description: error.message,
+        variant: 'destructive',
+      });
+    };
+
+    const handleMessage = async (raw: unknown) => {
+      let data: ChannelMessage;
+      try {
+        data = parseChannelMessage(raw);
+      } catch (error) {
+        reject(error as Error);
+        return;
+      }
+
+      if (data.type === 'chat_message' || data.type === 'otp_chat_message') {
         try {
-          const decrypted = cipher.decrypt(data.encrypted, data.iv);
-          const peerRole: Role = role === 'alice' ? 'bob' : 'alice';
-          
+          let decrypted: string;
+          if (data.type === 'chat_message') {
+            if (mode !== 'aes') throw new Error('Peer sent an AES message but this chat uses the one-time pad');
+            if (!cipher) return;
+            decrypted = await cipher.decrypt(data.epoch, data.encrypted, data.iv, data.seq);
+          } else {
+            if (mode !== 'otp' || !pad) throw new Error('Peer sent a one-time-pad message but this chat uses AES');
+            decrypted = pad.decrypt(data.offset, data.ciphertext, data.tag);
+          }
+
           setMessages(prev => [...prev, {
             sender: peerRole,
             text: decrypted,
             timestamp: new Date(),
           }]);
         } catch (error) {
-          console.error('Decryption failed:', error);
-          toast({
-            title: 'Decryption Error',
-            description: 'Failed to decrypt message',
-            variant: 'destructive',
-          });
+          reject(error as Error);
         }
       } else if (data.type === 'chat_ended') {
         handleEndChat();
       }
     };
 
-    connection.onMessage(handleMessage);
-  }, [cipher, role, connection, toast]);
+    channel.onMessage(handleMessage);
+  }, [cipher, pad, mode, role, channel, toast]);
 
   // Auto-scroll to bottom
   useEffect(() => {
@@ -87,28 +143,46 @@ const SecureChat = ({ role, connection, finalKey, onEnd }: SecureChatProps) => {
     }
   }, [messages]);
 
-  const handleSendMessage = () => {
-    if (!inputText.trim()) return;
+  const ready = epoch >= 0;
+  const padExhausted = mode === 'otp' && ready && padRemaining === 0;
 
-    try {
-      // Encrypt message
-      const { encrypted, iv } = cipher.encrypt(inputText);
-
-      // Send encrypted message
-      connection.sendMessage({
-        type: 'chat_message',
-        encrypted,
-        iv,
+  const handleSendMessage = async () => {
+    if (!inputText.trim() || !ready) return;
+
+    const text = inputText;
+    if (pad && new TextEncoder().encode(text).length > pad.remainingBytes) {
+      toast({
+        title: 'Not Enough Key Material',
+        description: `Only ${pad.remainingBytes} bytes of one-time pad remain`,
+        variant: 'destructive',
       });
+      return;
+    }
+
+    setInputText('');
+    try {
+      if (pad) {
+        // Pad and tag consume fresh key bits; nothing is ever reused
+        const { offset, ciphertext, tag } = pad.encrypt(text);
+        setPadRemaining(pad.remainingBytes);
+        channel.sendMessage({ type: 'otp_chat_message', offset, ciphertext, tag });
+      } else {
+        const { epoch: keyEpoch, encrypted, iv, seq } = await cipher.encrypt(text);
+        channel.sendMessage({
+          type: 'chat_message',
+          epoch: keyEpoch,
+          encrypted,
+          iv,
+          seq,
+        });
+      }
 
       // Add to local messages
       setMessages(prev => [...prev, {
         sender: role,
-        text: inputText,
+        text,
         timestamp: new Date(),
       }]);
-
-      setInputText('');
     } catch (error) {
       console.error('Encryption failed:', error);
       toast({
@@ -120,7 +194,7 @@ const SecureChat = ({ role, connection, finalKey, onEnd }: SecureChatProps) => {
   };
 
   const handleEndChat = () => {
-    connection.sendMessage({ type: 'chat_ended' });
+    channel.sendMessage({ type: 'chat_ended' });
     
     toast({
       title: 'Chat Ended',
@@ -153,10 +227,17 @@ const SecureChat = ({ role, connection, finalKey, onEnd }: SecureChatProps) => {
               </CardDescription>
             </div>
             <div className="flex items-center gap-4">
-              <Badge variant={timeRemaining > 30 ? 'default' : 'destructive'} className="text-lg px-4 py-2">
-                <Clock className="h-4 w-4 mr-2" />
-                {formatTime(timeRemaining)}
-              </Badge>
+              {keyRefresh ? (
+                <Badge variant="default" className="text-lg px-4 py-2" title={refreshStatus ?? undefined}>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Epoch {Math.max(epoch, 0)}
+                </Badge>
+              ) : (
+                <Badge variant={timeRemaining > 30 ? 'default' : 'destructive'} className="text-lg px-4 py-2">
+                  <Clock className="h-4 w-4 mr-2" />
+                  {formatTime(timeRemaining)}
+                </Badge>
+              )}
               <Badge variant="outline">
                 {role === 'alice' ? 'Alice' : 'Bob'}
               </Badge>
@@ -208,27 +289,69 @@ const SecureChat = ({ role, connection, finalKey, onEnd }: SecureChatProps) => {
               value={inputText}
               onChange={(e) => setInputText(e.target.value)}
               onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-              placeholder="Type a message..."
-              disabled={timeRemaining === 0}
+              placeholder={padExhausted ? 'One-time pad exhausted' : ready ? 'Type a message...' : 'Deriving keys...'}
+              disabled={timeRemaining === 0 || !ready || padExhausted}
               maxLength={200}
             />
             <Button
               onClick={handleSendMessage}
-              disabled={!inputText.trim() || timeRemaining === 0}
+              disabled={!inputText.trim() || timeRemaining === 0 || !ready || padExhausted}
               size="icon"
             >
-              <Send className="h-4 w-4" />
+              {ready ? <Send className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
             </Button>
           </div>
 
           <div className="flex items-center justify-between text-xs text-muted-foreground">
             <div className="flex items-center gap-2">
               <Lock className="h-3 w-3" />
-              <span>Messages encrypted with {finalKey.length}-bit quantum key</span>
+              {mode === 'otp' ? (
+                <span>One-time pad with Wegman–Carter MAC from {keyBits} bits of quantum key</span>
+              ) : (
+                <span>AES-256-GCM, keys derived via HKDF from the epoch {Math.max(epoch, 0)} quantum key</span>
+              )}
             </div>
             <span>{inputText.length}/200</span>
           </div>
 
+          {keyRefresh && refreshStatus && (
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <RefreshCw className="h-3 w-3" />
+              <span>{refreshStatus}</span>
+            </div>
+          )}
+
+          {pad && (
+            <div className="space-y-1">
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <KeyRound className="h-3 w-3" />
+                  Outgoing pad
+                </span>
+                <span>{padRemaining} bytes remaining</span>
+              </div>
+              <Progress
+                value={pad.sendUsage.capacity > 0 ? 100 - (pad.sendUsage.used / pad.sendUsage.capacity) * 100 : 0}
+              />
+            </div>
+          )}
+
+          {padExhausted && (
+            <Alert variant="destructive">
+              <KeyRound className="h-4 w-4" />
+              <AlertDescription className="flex items-center justify-between gap-2">
+                <span>
+                  {keyRefresh
+                    ? 'The one-time pad is used up. Sending resumes after the next background round.'
+                    : 'The one-time pad is used up. Run a new BB84 round to distill more key.'}
+                </span>
+                <Button size="sm" variant="outline" onClick={handleEndChat}>
+                  Start New BB84 Round
+                </Button>
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="flex gap-2 pt-2">
             <Button onClick={handleEndChat} variant="outline" className="flex-1">
               Return to Protocol
@@ -1,16 +1,21 @@
 import { motion, AnimatePresence } from 'framer-motion';
-import { Bit, Basis } from '@/types/bb84';
+import { Bit, Basis, QkdProtocol } from '@/types/bb84';
 import Qubit from './Qubit';
 import { Label } from './ui/label';
 
 interface SiftedQubitDisplayProps {
-  aliceBits: Bit[];
-  aliceBases: Basis[];
-  bobBases: Basis[];
+  bits: Bit[];
+  bases: Basis[];
+  peerBases: Basis[];
+  peerName: string;
   keepMask: boolean[];
+  protocol?: QkdProtocol;
 }
 
-const SiftedQubitDisplay = ({ aliceBits, aliceBases, bobBases, keepMask }: SiftedQubitDisplayProps) => {
+// In B92 the bases are never announced: only Bob's conclusive results are kept
+const SiftedQubitDisplay = ({ bits, bases, peerBases, peerName, keepMask, protocol = 'bb84' }: SiftedQubitDisplayProps) => {
+  const b92 = protocol === 'b92';
+
   const containerVariants = {
     hidden: { opacity: 0 },
     visible: {
@@ -25,7 +30,9 @@ const SiftedQubitDisplay = ({ aliceBits, aliceBases, bobBases, keepMask }: Sifte
     <div className="space-y-3">
       <Label>Sifting Result (First 50 Qubits)</Label>
       <p className="text-xs text-muted-foreground">
-        Qubits where bases mismatched are faded out. The remaining qubits form the sifted key.
+        {b92
+          ? 'Inconclusive and undetected results are faded out. The conclusive ones form the sifted key.'
+          : 'Qubits where bases mismatched are faded out. The remaining qubits form the sifted key.'}
       </p>
       <motion.div
         className="flex flex-wrap gap-2 bg-muted p-3 rounded-lg"
@@ -34,7 +41,7 @@ const SiftedQubitDisplay = ({ aliceBits, aliceBases, bobBases, keepMask }: Sifte
         animate="visible"
       >
         <AnimatePresence>
-          {aliceBits.slice(0, 50).map((bit, i) => (
+          {bits.slice(0, 50).map((bit, i) => (
             <motion.div
               key={i}
               layout
@@ -46,29 +53,34 @@ const SiftedQubitDisplay = ({ aliceBits, aliceBases, bobBases, keepMask }: Sifte
             >
               <Qubit
                 bit={bit}
-                basis={aliceBases[i]}
+                basis={bases[i]}
                 isFaded={!keepMask[i]}
+                protocol={protocol}
               />
-              <div 
-                className={`absolute -bottom-2 left-1/2 -translate-x-1/2 text-xs font-bold ${aliceBases[i] === bobBases[i] ? 'text-green-500' : 'text-destructive'}`}
-              >
-                {bobBases[i] === 0 ? '+' : '×'}
-              </div>
+              {!b92 && (
+                <div 
+                  className={`absolute -bottom-2 left-1/2 -translate-x-1/2 text-xs font-bold ${bases[i] === peerBases[i] ? 'text-green-500' : 'text-destructive'}`}
+                >
+                  {peerBases[i] === 0 ? '+' : '×'}
+                </div>
+              )}
             </motion.div>
           ))}
         </AnimatePresence>
       </motion.div>
-      <div className="flex items-center gap-4 text-xs text-muted-foreground">
-        <span>Bob's Bases:</span>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded-full bg-green-500" />
-          <span>Match</span>
-        </div>
-        <div className="flex items-center gap-1">
-          <div className="w-3 h-3 rounded-full bg-destructive" />
-          <span>Mismatch</span>
+      {!b92 && (
+        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+          <span>{peerName}'s Bases:</span>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded-full bg-green-500" />
+            <span>Match</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded-full bg-destructive" />
+            <span>Mismatch</span>
+          </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import QRCode from 'qrcode';
+import { Loader2 } from 'lucide-react';
+
+interface SignalQRCodeProps {
+  value: string;
+}
+
+// QR code for a connection link, so the peer can scan it instead of pasting
+const SignalQRCode = ({ value }: SignalQRCodeProps) => {
+  const [dataUrl, setDataUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDataUrl(null);
+    setError(false);
+    QRCode.toDataURL(value, { errorCorrectionLevel: 'L', margin: 1, width: 320 })
+      .then(url => {
+        if (!cancelled) setDataUrl(url);
+      })
+      .catch(err => {
+        console.error('QR code generation failed:', err);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value]);
+
+  if (error) {
+    return (
+      <p className="text-sm text-muted-foreground text-center">
+        The connection code is too long for a QR code; share the link instead.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex justify-center">
+      {dataUrl ? (
+        <img src={dataUrl} alt="Connection QR code" className="w-64 h-64 rounded-lg bg-white p-2" />
+      ) : (
+        <div className="w-64 h-64 flex items-center justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SignalQRCode;
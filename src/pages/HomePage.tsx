@@ -85,6 +85,9 @@ const HomePage = () => {
           <Button asChild size="lg" variant="outline">
             <Link to="/room">Join a Room</Link>
           </Button>
+          <Button asChild size="lg" variant="secondary">
+            <Link to="/demo">Solo Demo</Link>
+          </Button>
         </motion.div>
       </motion.section>
 
@@ -3,11 +3,22 @@ import { Role } from '@/types/quantum';
 import RoomSetup from '@/components/RoomSetup';
 import RoleSelection from '@/components/RoleSelection';
 import ConnectionSetup from '@/components/ConnectionSetup';
+import SasVerification from '@/components/SasVerification';
 import BB84Protocol from '@/components/BB84Protocol';
-import { WebRTCConnection } from '@/utils/webrtc';
+import ConnectionDiagnosticsDialog from '@/components/ConnectionDiagnosticsDialog';
+import { SignalingClient, WebRTCConnection } from '@/utils/webrtc';
+import { AuthenticatedTransport } from '@/utils/authenticated-transport';
+import { ResumableTransport } from '@/utils/resumable-transport';
+import { decodeSignal, offerFromLocation, signalLink } from '@/utils/signal-link';
+import { loadIceSettings } from '@/utils/ice-config';
+import { parseRoleSelected } from '@/utils/message-schema';
 import { useToast } from '@/hooks/use-toast';
+import { LinkStatus } from '@/types/bb84';
 
-type AppState = 'setup' | 'role-selection' | 'connection-setup' | 'protocol';
+type AppState = 'setup' | 'connection-setup' | 'verification' | 'role-selection' | 'protocol';
+
+// Optional local signaling server (npm run signaling); manual copy/paste when unset
+const SIGNALING_URL: string | undefined = import.meta.env.VITE_SIGNALING_URL;
 
 const Index = () => {
   const [appState, setAppState] = useState<AppState>('setup');
@@ -18,7 +29,11 @@ const Index = () => {
   const [peerRole, setPeerRole] = useState<Role>(null);
   const [connection, setConnection] = useState<WebRTCConnection | null>(null);
   const [connectionOffer, setConnectionOffer] = useState('');
-  const [isDataChannelReady, setIsDataChannelReady] = useState(false);
+  const [link, setLink] = useState<ResumableTransport | null>(null);
+  const [linkStatus, setLinkStatus] = useState<LinkStatus>({ state: 'connected' });
+  const [secureChannel, setSecureChannel] = useState<AuthenticatedTransport | null>(null);
+  const [signaling, setSignaling] = useState<SignalingClient | null>(null);
+  const [linkedOffer, setLinkedOffer] = useState<{ token: string; roomId: string } | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -30,50 +45,189 @@ const Index = () => {
     };
   }, [connection]);
 
+  useEffect(() => {
+    return () => {
+      signaling?.close();
+    };
+  }, [signaling]);
+
+  useEffect(() => {
+    return () => {
+      link?.close();
+    };
+  }, [link]);
+
+  useEffect(() => {
+    // Opened from an invitation link: pre-fill the join form and the offer
+    const token = offerFromLocation();
+    if (!token) return;
+    window.history.replaceState(null, '', window.location.pathname);
+    decodeSignal(token)
+      .then(payload => setLinkedOffer({ token, roomId: payload.roomId ?? '' }))
+      .catch(error => {
+        toast({
+          title: "Invalid Invitation Link",
+          description: error instanceof Error ? error.message : "The link could not be read",
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
+  // Drop the connection (closed by the cleanup effect) and start over
+  const resetSession = () => {
+    setConnection(null);
+    setSignaling(null);
+    setLink(null);
+    setLinkStatus({ state: 'connected' });
+    setSecureChannel(null);
+    setMyRole(null);
+    setPeerRole(null);
+    setConnectionOffer('');
+    setAppState('setup');
+  };
+
   const handleRoomCreated = async (id: string, pass: string, creator: boolean) => {
     setRoomId(id);
     setPasscode(pass);
     setIsCreator(creator);
     
     // Create WebRTC connection
-    const rtcConn = new WebRTCConnection();
+    const rtcConn = new WebRTCConnection(loadIceSettings());
     setConnection(rtcConn);
 
-    // Set up message handler early
-    rtcConn.onMessage((data) => {
-      if (data.type === 'role_selected') {
-        setPeerRole(data.role);
+    let signalingClient: SignalingClient | null = null;
+    let resumable: ResumableTransport | null = null;
+    let connectedBefore = false;
+
+    // Nothing but the SPAKE2 handshake is accepted until the peer proves it knows the passcode
+    rtcConn.onDataChannelOpen(async () => {
+      if (resumable) {
+        // A replacement channel: pick the session up where it stopped
+        resumable.attach();
+        return;
+      }
+
+      resumable = new ResumableTransport(rtcConn);
+      resumable.onStatusChange((status) => {
+        setLinkStatus(status);
+        if (status.state === 'reconnecting') {
+          toast({
+            title: "Connection Interrupted",
+            description: "Trying to reconnect to your peer...",
+            variant: "destructive",
+          });
+        } else if (status.state === 'connected') {
+          toast({
+            title: "Reconnected",
+            description: "The session resumed from the last acknowledged message",
+          });
+        } else {
+          toast({
+            title: "Connection Lost",
+            description: status.reason,
+            variant: "destructive",
+          });
+        }
+      });
+      resumable.attach();
+      setLink(resumable);
+
+      if (signalingClient) {
+        // The server stays connected to relay ICE restarts
+        setAppState('verification');
+      }
+      try {
+        const channel = await AuthenticatedTransport.establish(resumable, {
+          roomId: id,
+          passcode: pass,
+          isCreator: creator,
+        });
+        channel.onMessage((data) => {
+          try {
+            setPeerRole(parseRoleSelected(data).role);
+          } catch (error) {
+            console.error('Invalid role selection:', error);
+            toast({
+              title: "Message Rejected",
+              description: error instanceof Error ? error.message : "The peer sent an invalid message",
+              variant: "destructive",
+            });
+          }
+        });
+        channel.onAuthenticationFailure((reason) => {
+          toast({
+            title: "Message Rejected",
+            description: reason,
+            variant: "destructive",
+          });
+        });
+        setSecureChannel(channel);
+        toast({
+          title: "Passcode Verified",
+          description: "The classical channel is now authenticated",
+        });
+      } catch (error) {
+        console.error('Passcode authentication failed:', error);
+        toast({
+          title: "Authentication Failed",
+          description: error instanceof Error ? error.message : "Could not verify the room passcode",
+          variant: "destructive",
+        });
+        resetSession();
       }
     });
 
+    rtcConn.onDataChannelClose(() => resumable?.detach());
+
     rtcConn.onConnectionStateChange((state) => {
       console.log('Connection state:', state);
       if (state === 'connected') {
-        toast({
-          title: "Connected",
-          description: "Peer-to-peer connection established",
-        });
+        if (!connectedBefore) {
+          connectedBefore = true;
+          toast({
+            title: "Connected",
+            description: "Peer-to-peer connection established",
+          });
+        } else if (resumable?.getStatus().state === 'reconnecting' && rtcConn.isDataChannelOpen()) {
+          // The channel survived the outage
+          resumable.attach();
+        }
+      } else if (state === 'disconnected' || state === 'failed') {
+        resumable?.detach();
       }
     });
 
     if (creator) {
-      // Creator creates data channel and offer
+      // Creator creates the data channel
       rtcConn.createDataChannel('bb84-channel');
-      rtcConn.onDataChannelOpen(() => {
-        console.log('Data channel opened');
-        setIsDataChannelReady(true);
-      });
-      const offer = await rtcConn.createOffer();
-      setConnectionOffer(offer);
-      setAppState('connection-setup');
     } else {
-      // Joiner waits for offer
+      // Joiner waits for the creator's channel
       rtcConn.onDataChannel(() => {
         console.log('Data channel received');
-        setIsDataChannelReady(true);
       });
-      setAppState('connection-setup');
     }
+
+    if (SIGNALING_URL) {
+      try {
+        signalingClient = await SignalingClient.connect(SIGNALING_URL, id);
+        setSignaling(signalingClient);
+        rtcConn.negotiate(signalingClient, creator);
+      } catch (error) {
+        console.error('Signaling error:', error);
+        toast({
+          title: "Signaling Unavailable",
+          description: `${error instanceof Error ? error.message : 'Could not join the room'}. Falling back to manual connection setup.`,
+          variant: "destructive",
+        });
+      }
+    }
+
+    if (!signalingClient && creator) {
+      // Manual flow: the creator's offer is copied to the peer by hand
+      const offer = await rtcConn.createOffer();
+      setConnectionOffer(offer);
+    }
+    setAppState('connection-setup');
   };
 
   const handleConnectionEstablished = async (offer?: string, answer?: string) => {
@@ -83,7 +237,7 @@ const Index = () => {
       if (isCreator && answer) {
         // Creator receives answer
         await connection.handleAnswer(answer);
-        setAppState('role-selection');
+        setAppState('verification');
       } else if (!isCreator && offer) {
         // Joiner receives offer and generates answer
         const generatedAnswer = await connection.handleOffer(offer);
@@ -100,12 +254,21 @@ const Index = () => {
     }
   };
 
+  const handleSasMismatch = () => {
+    toast({
+      title: "Verification Failed",
+      description: "The symbols did not match. The connection may be intercepted and has been closed.",
+      variant: "destructive",
+    });
+    resetSession();
+  };
+
   const handleRoleSelected = (role: Role) => {
     setMyRole(role);
     
     // Send role selection to peer
-    if (connection && isDataChannelReady) {
-      connection.sendMessage({
+    if (secureChannel) {
+      secureChannel.sendMessage({
         type: 'role_selected',
         role: role
       });
@@ -141,18 +304,41 @@ const Index = () => {
   const renderState = () => {
     switch (appState) {
       case 'setup':
-        return <RoomSetup onRoomCreated={handleRoomCreated} />;
+        return (
+          <RoomSetup
+            key={linkedOffer?.roomId ?? ''}
+            onRoomCreated={handleRoomCreated}
+            initialRoomId={linkedOffer?.roomId}
+          />
+        );
       
       case 'connection-setup':
         return (
           <ConnectionSetup 
             isCreator={isCreator}
+            roomId={roomId}
+            automatic={signaling !== null}
             onConnectionEstablished={handleConnectionEstablished}
             offer={isCreator ? connectionOffer : undefined}
             answer={!isCreator ? connectionOffer : undefined}
-            onContinue={() => setAppState('role-selection')}
+            initialOffer={!isCreator && linkedOffer?.roomId === roomId ? signalLink('offer', linkedOffer.token) : undefined}
+            onContinue={() => setAppState('verification')}
           />
         );
+
+      case 'verification': {
+        const descriptions = connection?.getSessionDescriptions();
+        if (!descriptions) return null;
+        return (
+          <SasVerification
+            roomId={roomId}
+            offerSdp={descriptions.offer}
+            answerSdp={descriptions.answer}
+            onConfirmed={() => setAppState('role-selection')}
+            onMismatch={handleSasMismatch}
+          />
+        );
+      }
       
       case 'role-selection':
         return (
@@ -160,20 +346,25 @@ const Index = () => {
             onRoleSelected={handleRoleSelected}
             aliceTaken={myRole === 'alice' || peerRole === 'alice'}
             bobTaken={myRole === 'bob' || peerRole === 'bob'}
-            isReady={isDataChannelReady}
+            isReady={secureChannel !== null}
           />
         );
       
       case 'protocol':
-        if (!connection || !myRole) return null;
-        return <BB84Protocol role={myRole} connection={connection} />;
+        if (!secureChannel || !myRole) return null;
+        return <BB84Protocol role={myRole} connection={secureChannel} linkStatus={linkStatus} />;
       
       default:
         return null;
     }
   };
 
-  return renderState();
+  return (
+    <>
+      {renderState()}
+      {connection && appState !== 'setup' && <ConnectionDiagnosticsDialog connection={connection} />}
+    </>
+  );
 };
 
 export default Index;
@@ -0,0 +1,68 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MonitorSmartphone } from 'lucide-react';
+import BB84Protocol from '@/components/BB84Protocol';
+import { LoopbackTransport } from '@/utils/loopback';
+import { AuthenticatedTransport } from '@/utils/authenticated-transport';
+
+// Alice and Bob side by side in one tab, connected by an in-memory loopback
+const SoloDemo = () => {
+  const [[aliceTransport, bobTransport]] = useState(() => LoopbackTransport.pair());
+  const [channels, setChannels] = useState<[AuthenticatedTransport, AuthenticatedTransport] | null>(null);
+
+  useEffect(() => {
+    // Same passcode handshake as two devices, with a throwaway passcode both sides know
+    const credentials = { roomId: 'SOLO-DEMO', passcode: crypto.randomUUID() };
+    let cancelled = false;
+    Promise.all([
+      AuthenticatedTransport.establish(aliceTransport, { ...credentials, isCreator: true }),
+      AuthenticatedTransport.establish(bobTransport, { ...credentials, isCreator: false }),
+    ])
+      .then(pair => {
+        if (!cancelled) setChannels(pair);
+      })
+      .catch(error => console.error('Solo demo authentication failed:', error));
+
+    return () => {
+      cancelled = true;
+      aliceTransport.close();
+      bobTransport.close();
+    };
+  }, [aliceTransport, bobTransport]);
+
+  return (
+    <div className="gradient-panel">
+      <div className="container mx-auto px-4 pt-6 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <MonitorSmartphone className="h-6 w-6 text-primary" />
+            Solo Demo
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Both parties run in this tab over an in-memory link. Drive Alice on the left and Bob on the right.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">No network required</Badge>
+          <Button asChild variant="outline" size="sm">
+            <Link to="/room">Use Two Devices</Link>
+          </Button>
+        </div>
+      </div>
+      {channels ? (
+        <div className="grid grid-cols-1 xl:grid-cols-2">
+          <BB84Protocol role="alice" connection={channels[0]} />
+          <BB84Protocol role="bob" connection={channels[1]} />
+        </div>
+      ) : (
+        <p className="container mx-auto px-4 py-12 text-sm text-muted-foreground">
+          Authenticating the classical channel...
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SoloDemo;
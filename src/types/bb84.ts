@@ -1,47 +1,208 @@
 // BB84 Protocol Types and Interfaces
 
+import type { BitSet } from '@/utils/bitset';
+
 export type Basis = 0 | 1; // 0 = rectilinear (+), 1 = diagonal (×)
 export type Bit = 0 | 1;
-export type QuantumBackend = 'qiskit' | 'pennylane';
+export type QuantumBackend = 'qiskit' | 'pennylane' | 'statevector';
+export type QkdProtocol = 'bb84' | 'b92'; // four states in two bases, or two non-orthogonal states
+export type ReconciliationMethod = 'cascade' | 'ldpc';
+export type ChatMode = 'aes' | 'otp';
+export type EveStrategyName = 'intercept-resend' | 'partial' | 'fixed-basis' | 'breidbart' | 'cloning' | 'pns';
 
 export interface BB84Config {
+  protocol: QkdProtocol;
   numQubits: number;
   sampleSize: number;
   qberThreshold: number; // e.g., 0.11 for 11%
   backend: QuantumBackend;
   eveEnabled: boolean;
+  eve: EveAttack;
+  channel: ChannelParams;
+  circuit: CustomCircuit | null; // imported OpenQASM run on every photon, statevector backend only
+  reconciliation: ReconciliationMethod;
+  epsilonSec: number; // secrecy failure probability
+  epsilonCor: number; // correctness failure probability
+  keyRefreshInterval: number; // seconds between background rounds during chat, 0 = off
+}
+
+// Physical imperfections between Alice's source and Bob's detectors
+export interface ChannelParams {
+  depolarizing: number; // probability a photon is replaced by a fully mixed state
+  bitFlip: number; // probability of an X error (|0⟩ ↔ |1⟩)
+  phaseFlip: number; // probability of a Z error (|+⟩ ↔ |−⟩)
+  attenuation: number; // fiber loss in dB/km
+  distance: number; // fiber length in km
+  detectorEfficiency: number; // probability a photon reaching Bob makes a click, 0 to 1
+  darkCountProbability: number; // per detector and time slot
+  misalignment: number; // polarization rotation in degrees
+}
+
+// Single-qubit operations of an imported OpenQASM program, applied where Eve sits
+export type CircuitOperation =
+  | { kind: 'gate'; name: string; params: number[] }
+  | { kind: 'measure' }
+  | { kind: 'reset' };
+
+export interface CustomCircuit {
+  name: string; // file name, for display
+  operations: CircuitOperation[];
+}
+
+export type QasmVersion = 2 | 3;
+
+// Eve's attack, used when eveEnabled is set
+export interface EveAttack {
+  strategy: EveStrategyName;
+  fraction: number; // share of qubits attacked by the partial strategy, 0 to 1
+  basis: Basis; // measurement basis of the fixed-basis strategy
+  meanPhotonNumber: number; // μ of Alice's weak laser pulses, for photon-number splitting
+}
+
+// What Eve did to one pulse on its way to Bob
+export interface EveInterception {
+  forwarded: PreparedQubit | null; // the photon Eve lets through or resends, null if she blocked the pulse
+  bypassFiber?: boolean; // sent over Eve's own lossless link instead of the fiber
+  depolarizing?: number; // weight of the fully mixed state in what Bob receives (cloner output)
+  basis?: Basis; // basis Eve measured in
+  guess?: Bit; // Eve's guess of Alice's bit, once bases are announced
+}
+
+// Eve's knowledge of a sifted key bit versus the errors she causes, on an otherwise ideal channel
+export interface EveImpact {
+  qber: number;
+  information: number; // bits of mutual information with Alice per sifted bit
+}
+
+// Projective measurement of a photon along a polarization axis in degrees: 0 if it passes the axis
+export type PolarizationMeasurement = (qubit: PreparedQubit, axis: number) => Bit;
+
+export interface EveStrategy {
+  readonly name: EveStrategyName;
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception;
+  expectedImpact(): EveImpact;
+}
+
+// What Eve learned about the key at each post-processing stage (bits of mutual information)
+export interface EveKnowledge {
+  keyLength: number; // sifted bits left after the QBER sample, compared against Bob's key
+  guessed: number; // key bits Eve holds a guess for
+  correctFraction: number; // share of her guesses that match the key
+  afterSifting: number;
+  parityLeak: number; // parities or syndrome bits she overheard during error correction
+  afterErrorCorrection: number;
+  finalKeyLength: number | null; // null until privacy amplification
+  afterPrivacyAmplification: number | null;
 }
 
 export interface ProtocolState {
   step: 'idle' | 'preparation' | 'measurement' | 'sifting' | 'qber' | 'error-correction' | 'privacy-amplification' | 'success' | 'aborted' | 'chat';
-  aliceBits: Bit[];
-  aliceBases: Basis[];
-  bobBases: Basis[];
-  bobOutcomes: Bit[];
-  eveBases?: Basis[];
-  eveOutcomes?: Bit[];
-  keepMask: boolean[];
-  siftedKey: Bit[];
+  // Per-qubit bits, bases and flags are bit-packed (bit i for time slot i);
+  // the UI unpacks only the part it displays
+  aliceBits: BitSet;
+  aliceBases: BitSet; // in B92 the basis each state belongs to, which equals the bit
+  bobBases: BitSet;
+  bobOutcomes: BitSet;
+  detected: BitSet; // Bob's detectors clicked in this time slot; other slots are lost
+  eveBases?: BitSet;
+  eveOutcomes?: BitSet; // Eve's outcomes (her guesses of Alice's bits in BB84), meaningful where eveKnown is set
+  eveKnown?: BitSet;
+  keepMask: BitSet;
+  siftedKey: BitSet;
   sampleIndices: number[];
   qber: number | null;
   ecStats: ErrorCorrectionStats | null;
   paStats: PrivacyAmplificationStats | null;
-  finalKey: Bit[];
+  finalKey: BitSet;
   abortReason: string | null;
 }
 
+// ProtocolState plus the coordination flags tracked by BB84Session
+export interface SessionState extends ProtocolState {
+  peerReady: boolean; // Bob: photons announced; Alice: Bob has measured
+  basesSent: boolean;
+  busy: boolean; // waiting on the peer during the QBER check or reconciliation
+  progress: JobProgress | null; // a compute job is running
+}
+
+export interface JobProgress {
+  task: string;
+  value: number; // fraction done, 0 to 1
+}
+
+/**
+ * A photon in flight on the quantum channel.
+ * Only its polarization angle (degrees) travels, but the angle encodes the
+ * bit/basis pair Alice used to prepare it, so on the wire it is not secret.
+ */
+export interface PreparedQubit {
+  readonly polarization: number;
+}
+
 export interface ErrorCorrectionStats {
-  initialErrors: number;
-  parityRounds: number;
+  method: ReconciliationMethod;
+  errorsCorrected: number;
+  parityRounds: number; // Cascade passes, or syndrome blocks for LDPC
+  roundTrips: number;
+  bitsRevealed: number; // parities answered, or total syndrome length for LDPC
+  efficiency: number | null; // f = bitsRevealed / (n · h(QBER))
+  correctedKey: BitSet;
+}
+
+// Parity of positions [start, end) of the pass's shuffled key
+export interface ParityQuery {
+  pass: number;
+  start: number;
+  end: number;
+}
+
+export interface CascadeParityRequest {
+  round: number;
+  passSeeds: number[];
+  queries: ParityQuery[];
+}
+
+export interface CascadeParityResponse {
+  round: number;
+  parityBits: Bit[];
+}
+
+// One block of checks: public matrix seed plus Alice's syndrome H·x_A
+export interface LdpcSyndrome {
+  seed: number;
+  syndrome: BitSet;
+}
+
+// Belief propagation gave up on the blocks so far; Bob may ask for another
+export interface LdpcDecodingFailure {
+  converged: false;
   bitsRevealed: number;
-  correctedKey: Bit[];
+}
+
+export interface FiniteKeyParams {
+  keyLength: number; // n: sifted bits left after the QBER sample was removed
+  sampleSize: number; // k: sifted bits sacrificed for parameter estimation
+  sampleErrors: number; // errors observed in the sample
+  reconciliationLeak: number; // bits revealed during error correction
+  epsilonSec: number;
+  epsilonCor: number;
+}
+
+export interface FiniteKeyAnalysis extends FiniteKeyParams {
+  observedQBER: number;
+  statisticalDeviation: number; // μ
+  qberUpperBound: number; // Q + μ, capped at 1/2
+  phaseErrorCost: number; // n · h(Q + μ)
+  securityCost: number; // log2(2 / (ε_sec² · ε_cor))
+  secretKeyLength: number; // ℓ, may be ≤ 0
 }
 
 export interface PrivacyAmplificationStats {
   inputLength: number;
   outputLength: number;
   compressionRatio: number;
-  amplifiedKey: Bit[];
+  analysis: FiniteKeyAnalysis;
+  amplifiedKey: BitSet;
 }
 
 export interface RunSummary {
@@ -58,17 +219,212 @@ export interface RunSummary {
 
 // WebRTC DataChannel message types
 export type BB84Message =
-  | { type: 'prepared'; numQubits: number; aliceBits: Bit[]; aliceBases: Basis[] }
-  | { type: 'measured'; numQubits: number }
-  | { type: 'announce_bases'; bases: Basis[] }
-  | { type: 'sifting_result'; keepMask: boolean[] }
+  | { type: 'prepared'; numQubits: number; protocol: QkdProtocol; epsilonSec: number; epsilonCor: number }
+  | { type: 'measured'; numQubits: number; detected: BitSet }
+  | { type: 'announce_bases'; bases: BitSet }
+  | { type: 'sifting_result'; keepMask: BitSet }
   | { type: 'qber_request'; sampleIndices: number[]; sampleBits: Bit[] }
   | { type: 'qber_response'; sampleBits: Bit[] }
   | { type: 'accept_or_abort'; accepted: boolean; qber: number }
-  | { type: 'error_correction'; parityBits: number[]; blockIndex: number }
-  | { type: 'error_correction_stats'; stats: ErrorCorrectionStats }
-  | { type: 'privacy_amplification'; hashSeed: number[] }
+  | ({ type: 'error_correction'; kind: 'parity_request' } & CascadeParityRequest)
+  | ({ type: 'error_correction'; kind: 'parity_response' } & CascadeParityResponse)
+  | ({ type: 'error_correction'; kind: 'syndrome' } & LdpcSyndrome)
+  | { type: 'error_correction'; kind: 'syndrome_request' }
+  | { type: 'error_correction_stats'; stats: Omit<ErrorCorrectionStats, 'correctedKey'> }
+  | { type: 'privacy_amplification'; hashSeed: BitSet }
   | { type: 'final_key_commitment'; commitment: string }
   | { type: 'final_key_confirmed'; match: boolean }
-  | { type: 'chat_message'; encrypted: string; iv: string }
-  | { type: 'chat_ended' };
+  | { type: 'rekey'; epoch: number }
+  | { type: 'rekey_ack'; epoch: number }
+  | { type: 'chat_message'; epoch: number; encrypted: string; iv: string; seq: number }
+  | { type: 'otp_chat_message'; offset: number; ciphertext: string; tag: string }
+  | { type: 'chat_ended' }
+  | { type: 'abort'; reason: string };
+
+// Simulated quantum channel frames (kept out of the classical BB84Message stream)
+export type QuantumChannelFrame =
+  | { type: 'quantum_transmission'; qubits: PreparedQubit[] };
+
+export type ChannelMessage = BB84Message | QuantumChannelFrame;
+
+// Logical channels multiplexed over the single WebRTC data channel
+export type ChannelName = 'protocol' | 'chat' | 'refresh';
+
+export interface MultiplexedFrame {
+  channel: ChannelName;
+  payload: ChannelMessage;
+}
+
+// Raw frame carrier between the two peers: a WebRTC data channel or an in-memory loopback
+export interface Transport {
+  sendMessage(data: unknown): void;
+  onMessage(callback: (data: unknown) => void): void;
+  close(): void;
+}
+
+// Frame encoding on the data channel; receivers accept both
+export type WireFormat = 'binary' | 'json';
+
+// One STUN or TURN server as entered in the network settings
+export interface IceServerEntry {
+  urls: string;
+  username?: string;
+  credential?: string;
+}
+
+// ICE configuration persisted in localStorage and passed to WebRTCConnection
+export interface IceSettings {
+  servers: IceServerEntry[];
+  /** Only use TURN relay candidates (hides local addresses, needs a TURN server) */
+  relayOnly: boolean;
+  /** JSON frames are larger but readable in the browser's WebRTC internals */
+  wireFormat: WireFormat;
+}
+
+// ICE candidate as reported by getStats()
+export interface CandidateInfo {
+  type: string;
+  protocol: string;
+  address: string;
+  port: number;
+}
+
+// Snapshot for the connection diagnostics view
+export interface ConnectionDiagnostics {
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  iceGatheringState: RTCIceGatheringState;
+  localCandidates: CandidateInfo[];
+  remoteCandidates: CandidateInfo[];
+  selectedPair: {
+    local: CandidateInfo;
+    remote: CandidateInfo;
+    roundTripTime: number | null;
+    bytesSent: number;
+    bytesReceived: number;
+  } | null;
+}
+
+// Payloads relayed by the signaling server between the two peers of a room
+export type SignalData =
+  | { kind: 'offer'; sdp: string }
+  | { kind: 'answer'; sdp: string }
+  | { kind: 'candidate'; candidate: RTCIceCandidateInit };
+
+// Messages from the signaling server (see server/signaling.js)
+export type SignalingServerMessage =
+  | { type: 'joined'; peerPresent: boolean }
+  | { type: 'peer-joined' }
+  | { type: 'peer-left' }
+  | { type: 'signal'; data: SignalData }
+  | { type: 'error'; reason: string };
+
+// Session layer between the data channel and authentication: sequence numbers,
+// acknowledgements and the hello exchanged each time a channel (re)opens
+export type ResumableFrame =
+  | { kind: 'hello'; session: string; received: number; reply?: boolean }
+  | { kind: 'data'; seq: number; ack: number; payload: unknown }
+  | { kind: 'ack'; received: number };
+
+export type LinkStatus =
+  | { state: 'connected' }
+  | { state: 'reconnecting' }
+  | { state: 'failed'; reason: string };
+
+// Sent over the authenticated channel while both peers pick their roles
+export interface RoleSelectedMessage {
+  type: 'role_selected';
+  role: 'alice' | 'bob';
+}
+
+// Passcode-authenticated key exchange, sent in the clear before any other frame;
+// the share also carries the sender's PROTOCOL_VERSION
+export type PakeMessage =
+  | { type: 'pake_share'; version: number; share: string }
+  | { type: 'pake_confirm'; confirmation: string };
+
+// Every frame after the handshake: the payload with its sequence number and an HMAC tag
+// over the payload's canonical binary encoding
+export interface AuthenticatedFrame {
+  type: 'authenticated';
+  seq: number;
+  payload: unknown;
+  mac: string;
+}
+
+// Anything that carries ChannelMessages: the raw connection or one multiplexed channel.
+// Incoming payloads are untrusted until parseChannelMessage() has checked them.
+export interface MessageLink {
+  sendMessage(data: ChannelMessage): void;
+  onMessage(callback: (data: unknown) => void): void;
+}
+
+// Heavy simulation and post-processing steps, by name, with their inputs and results
+export interface ComputeOps {
+  prepare: {
+    args: { numQubits: number; backend: QuantumBackend; protocol: QkdProtocol };
+    result: { aliceBits: BitSet; aliceBases: BitSet };
+  };
+  measure: {
+    args: {
+      qubits: PreparedQubit[];
+      backend: QuantumBackend;
+      eve: EveAttack | null;
+      channel: ChannelParams;
+      circuit: CustomCircuit | null;
+      protocol: QkdProtocol;
+    };
+    result: {
+      bobBases: BitSet;
+      bobOutcomes: BitSet;
+      detected: BitSet;
+      eveBases?: BitSet;
+      eveOutcomes?: BitSet;
+      eveKnown?: BitSet;
+    };
+  };
+  encodeSyndrome: {
+    args: { key: BitSet; qber: number; block: number };
+    result: LdpcSyndrome;
+  };
+  decodeSyndrome: {
+    // Syndrome blocks travel concatenated, so the worker gets them packed
+    args: { key: BitSet; seeds: number[]; syndrome: BitSet; blockLengths: number[]; qber: number };
+    result: ErrorCorrectionStats | LdpcDecodingFailure;
+  };
+  amplify: {
+    args: { key: BitSet; hashSeed: BitSet; analysis: FiniteKeyAnalysis };
+    result: PrivacyAmplificationStats;
+  };
+}
+
+export type ComputeOp = keyof ComputeOps;
+
+// Runs compute jobs on the main thread or in a Web Worker
+export interface BB84Compute {
+  run<K extends ComputeOp>(
+    op: K,
+    args: ComputeOps[K]['args'],
+    onProgress?: (fraction: number) => void
+  ): Promise<ComputeOps[K]['result']>;
+}
+
+// Arguments and results cross the worker boundary with long bit arrays packed
+export interface PackedFields {
+  plain: Record<string, unknown>;
+  bits: Record<string, { words: Uint32Array; length: number }>;
+  polarizations?: Float64Array;
+}
+
+export type ComputeRequest = { id: number; op: ComputeOp; args: PackedFields };
+
+export type ComputeResponse =
+  | { id: number; kind: 'progress'; value: number }
+  | { id: number; kind: 'result'; result: PackedFields }
+  | { id: number; kind: 'error'; message: string };
+
+// Distilled key material of one epoch; epoch 0 is the interactive run
+export interface KeyEpoch {
+  epoch: number;
+  key: BitSet;
+}
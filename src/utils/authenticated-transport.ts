@@ -0,0 +1,220 @@
+// Passcode-Authenticated Transport
+// Runs SPAKE2 over a fresh connection and then MACs every frame with the result
+
+import { AuthenticatedFrame, PakeMessage, Transport } from '@/types/bb84';
+import { Spake2, bytesToHex, hexToBytes } from './spake2';
+import { PROTOCOL_VERSION, parsePakeMessage } from './message-schema';
+import { encodeBinary } from './wire-codec';
+
+const HANDSHAKE_TIMEOUT_MS = 20_000;
+const HKDF_SALT = new TextEncoder().encode('key-cipher-chat/channel/v1');
+
+export interface PasscodeCredentials {
+  roomId: string;
+  passcode: string;
+  /** The room creator plays SPAKE2 party A, the joiner party B */
+  isCreator: boolean;
+}
+
+function deriveMacKey(sessionKey: CryptoKey, from: string, to: string): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: HKDF_SALT,
+      info: new TextEncoder().encode(`mac ${from}->${to}`),
+    },
+    sessionKey,
+    { name: 'HMAC', hash: 'SHA-256', length: 256 },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// The canonical binary encoding is MACed, so the tag holds whichever wire format carried the frame
+function macInput(seq: number, payload: unknown): Uint8Array {
+  const prefix = new TextEncoder().encode(`${seq}|`);
+  const body = encodeBinary(payload);
+  const input = new Uint8Array(prefix.length + body.length);
+  input.set(prefix);
+  input.set(body, prefix.length);
+  return input;
+}
+
+/**
+ * Authenticated classical channel over an untrusted transport.
+ * Each frame carries a per-direction sequence number and an HMAC-SHA-256 tag
+ * under a key only the two passcode holders share. Forged, reordered or
+ * replayed frames are dropped before they reach the protocol. Signing and
+ * verifying are asynchronous, so both directions are serialized through a
+ * promise chain to keep frames in order.
+ */
+export class AuthenticatedTransport implements Transport {
+  private connection: Transport;
+  private sendKey: CryptoKey;
+  private receiveKey: CryptoKey;
+  private sendSeq = 0;
+  private expectedSeq = 0;
+  private outbound: Promise<void> = Promise.resolve();
+  private inbound: Promise<void> = Promise.resolve();
+  private callback: ((data: unknown) => void) | null = null;
+  private failureCallback: ((reason: string) => void) | null = null;
+  private undelivered: unknown[] = [];
+
+  private constructor(connection: Transport, sendKey: CryptoKey, receiveKey: CryptoKey) {
+    this.connection = connection;
+    this.sendKey = sendKey;
+    this.receiveKey = receiveKey;
+    connection.onMessage(data => this.receive(data));
+  }
+
+  /**
+   * Run the SPAKE2 handshake on a just-opened connection.
+   * Rejects if the peer runs a different protocol version, used a different
+   * passcode or room ID, sent a malformed share, or did not finish within the
+   * timeout. Frames the peer sends after
+   * finishing its side but before ours completes are kept and replayed.
+   */
+  static async establish(connection: Transport, credentials: PasscodeCredentials): Promise<AuthenticatedTransport> {
+    const early: unknown[] = [];
+    let receiveShare: (share: string) => void;
+    let receiveConfirmation: (confirmation: string) => void;
+    const peerShare = new Promise<string>(resolve => (receiveShare = resolve));
+    const peerConfirmation = new Promise<string>(resolve => (receiveConfirmation = resolve));
+    let failHandshake: (error: Error) => void;
+    const failed = new Promise<never>((_, reject) => (failHandshake = reject));
+
+    connection.onMessage(data => {
+      const type = (data as { type?: unknown })?.type;
+      if (type !== 'pake_share' && type !== 'pake_confirm') {
+        early.push(data);
+        return;
+      }
+      try {
+        const message = parsePakeMessage(data);
+        if (message.type === 'pake_confirm') {
+          receiveConfirmation(message.confirmation);
+        } else if (message.version !== PROTOCOL_VERSION) {
+          throw new Error(
+            `Protocol version mismatch: the peer runs v${message.version}, this app runs v${PROTOCOL_VERSION}. Both sides need the same version.`
+          );
+        } else {
+          receiveShare(message.share);
+        }
+      } catch (error) {
+        failHandshake(error as Error);
+      }
+    });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error('The peer did not complete passcode authentication in time')),
+        HANDSHAKE_TIMEOUT_MS
+      );
+    });
+
+    const handshake = async (): Promise<AuthenticatedTransport> => {
+      const party = credentials.isCreator ? 'A' : 'B';
+      const spake = await Spake2.start(party, credentials.roomId, credentials.passcode);
+      const share: PakeMessage = { type: 'pake_share', version: PROTOCOL_VERSION, share: spake.share };
+      connection.sendMessage(share);
+
+      const { confirmation, sessionKey } = await spake.finish(await peerShare);
+      const confirm: PakeMessage = { type: 'pake_confirm', confirmation };
+      connection.sendMessage(confirm);
+
+      if (!(await spake.verify(await peerConfirmation))) {
+        throw new Error('Passcode mismatch: the peer does not know this room\'s passcode');
+      }
+
+      const [self, peer] = credentials.isCreator ? ['creator', 'joiner'] : ['joiner', 'creator'];
+      const [sendKey, receiveKey] = await Promise.all([
+        deriveMacKey(sessionKey, self, peer),
+        deriveMacKey(sessionKey, peer, self),
+      ]);
+      const transport = new AuthenticatedTransport(connection, sendKey, receiveKey);
+      early.forEach(data => transport.receive(data));
+      return transport;
+    };
+
+    try {
+      return await Promise.race([handshake(), timeout, failed]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  sendMessage(data: unknown): void {
+    const seq = this.sendSeq++;
+    this.outbound = this.outbound
+      .then(async () => {
+        const mac = await crypto.subtle.sign('HMAC', this.sendKey, macInput(seq, data));
+        const frame: AuthenticatedFrame = { type: 'authenticated', seq, payload: data, mac: bytesToHex(new Uint8Array(mac)) };
+        this.connection.sendMessage(frame);
+      })
+      .catch(error => console.error('Failed to authenticate outgoing frame:', error));
+  }
+
+  /**
+   * Frames that arrive before a handler is registered are held until one is
+   */
+  onMessage(callback: (data: unknown) => void): void {
+    this.callback = callback;
+    const held = this.undelivered;
+    this.undelivered = [];
+    held.forEach(data => callback(data));
+  }
+
+  /**
+   * Called with a reason whenever an incoming frame is rejected
+   */
+  onAuthenticationFailure(callback: (reason: string) => void): void {
+    this.failureCallback = callback;
+  }
+
+  close(): void {
+    this.connection.close();
+  }
+
+  private receive(data: unknown): void {
+    this.inbound = this.inbound
+      .then(() => this.verify(data))
+      .catch(error => console.error('Error handling authenticated frame:', error));
+  }
+
+  private async verify(data: unknown): Promise<void> {
+    const frame = data as AuthenticatedFrame;
+    if (frame?.type !== 'authenticated' || typeof frame.seq !== 'number' || typeof frame.mac !== 'string') {
+      this.reject('Unauthenticated frame received');
+      return;
+    }
+    if (frame.seq !== this.expectedSeq) {
+      this.reject(`Out-of-order frame (expected #${this.expectedSeq}, got #${frame.seq})`);
+      return;
+    }
+
+    let valid = false;
+    try {
+      valid = await crypto.subtle.verify('HMAC', this.receiveKey, hexToBytes(frame.mac), macInput(frame.seq, frame.payload));
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      this.reject('Frame failed authentication (HMAC mismatch)');
+      return;
+    }
+
+    this.expectedSeq++;
+    if (this.callback) {
+      this.callback(frame.payload);
+    } else {
+      this.undelivered.push(frame.payload);
+    }
+  }
+
+  private reject(reason: string): void {
+    console.error('Dropping frame:', reason);
+    this.failureCallback?.(reason);
+  }
+}
@@ -1,31 +1,80 @@
 // BB84 Protocol Implementation
 // Handles sifting, QBER estimation, error correction, and privacy amplification
 
-import { Bit, Basis, ErrorCorrectionStats, PrivacyAmplificationStats } from '@/types/bb84';
+import {
+  Bit,
+  ErrorCorrectionStats,
+  FiniteKeyAnalysis,
+  LdpcSyndrome,
+  PrivacyAmplificationStats,
+  QkdProtocol,
+} from '@/types/bb84';
+import { BitSet } from './bitset';
+import { CascadeReconciler, CascadeResponder } from './cascade';
+import { decodeLdpcSyndrome, encodeLdpcSyndrome, MAX_SYNDROME_BLOCKS } from './ldpc';
+import { toeplitzHash } from './toeplitz';
+
+/**
+ * Default abort thresholds. BB84 stays secure up to 11% (Shor–Preskill); the
+ * security proofs of B92 only tolerate a few percent.
+ */
+export const QBER_THRESHOLDS: Record<QkdProtocol, number> = {
+  bb84: 0.11,
+  b92: 0.03,
+};
+
+// A slot counts as lost only if Bob reported detections and this one did not click
+function lost(detected: BitSet | undefined, index: number): boolean {
+  return detected !== undefined && detected.length > 0 && detected.get(index) === 0;
+}
 
 /**
  * Perform basis sifting - keep only bits where Alice and Bob used same basis
+ * and Bob's detectors clicked (lost time slots are discarded like mismatches)
  */
-export function performSifting(
-  aliceBases: Basis[],
-  bobBases: Basis[]
-): boolean[] {
-  const keepMask: boolean[] = [];
+export function performSifting(aliceBases: BitSet, bobBases: BitSet, detected?: BitSet): BitSet {
+  const keepMask = new BitSet(aliceBases.length);
   for (let i = 0; i < aliceBases.length; i++) {
-    keepMask.push(aliceBases[i] === bobBases[i]);
+    if (aliceBases.get(i) === bobBases.get(i) && !lost(detected, i)) keepMask.set(i, 1);
+  }
+  return keepMask;
+}
+
+/**
+ * B92 sifting, done by Bob alone: outcome 1 rules out one of Alice's two
+ * states and is kept, outcome 0 is inconclusive and lost slots are discarded
+ */
+export function performB92Sifting(bobOutcomes: BitSet, detected?: BitSet): BitSet {
+  const keepMask = new BitSet(bobOutcomes.length);
+  for (let i = 0; i < bobOutcomes.length; i++) {
+    if (bobOutcomes.get(i) === 1 && !lost(detected, i)) keepMask.set(i, 1);
   }
   return keepMask;
 }
 
+/**
+ * Bob's B92 bits: a conclusive result in the rectilinear basis rules out |0⟩,
+ * so Alice sent |+⟩ (bit 1); in the diagonal basis it rules out |+⟩ (bit 0)
+ */
+export function b92BobBits(bobBases: BitSet): BitSet {
+  const bits = new BitSet(bobBases.length);
+  for (let i = 0; i < bobBases.length; i++) {
+    bits.set(i, (1 - bobBases.get(i)) as Bit);
+  }
+  return bits;
+}
+
 /**
  * Extract sifted key using keep mask
  */
-export function extractSiftedKey(bits: Bit[], keepMask: boolean[]): Bit[] {
-  return bits.filter((_, i) => keepMask[i]);
+export function extractSiftedKey(bits: BitSet, keepMask: BitSet): BitSet {
+  return bits.select(keepMask);
 }
 
 /**
  * Select random sample indices for QBER estimation
+ * A partial Fisher-Yates shuffle only touches the first sampleSize slots,
+ * so the cost is O(siftedLength) to set up plus O(sampleSize) to draw.
  */
 export function selectRandomSample(
   siftedLength: number,
@@ -33,15 +82,18 @@ export function selectRandomSample(
   seed?: number
 ): number[] {
   const rng = seed !== undefined ? seededRandom(seed) : Math.random;
-  const indices = Array.from({ length: siftedLength }, (_, i) => i);
-  
-  // Fisher-Yates shuffle
-  for (let i = indices.length - 1; i > 0; i--) {
-    const j = Math.floor(rng() * (i + 1));
-    [indices[i], indices[j]] = [indices[j], indices[i]];
+  const indices = new Int32Array(siftedLength);
+  for (let i = 0; i < siftedLength; i++) indices[i] = i;
+
+  const count = Math.min(sampleSize, siftedLength);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(rng() * (siftedLength - i));
+    const swap = indices[i];
+    indices[i] = indices[j];
+    indices[j] = swap;
   }
-  
-  return indices.slice(0, sampleSize).sort((a, b) => a - b);
+
+  return Array.from(indices.subarray(0, count).sort());
 }
 
 function seededRandom(seed: number): () => number {
@@ -75,137 +127,99 @@ export function calculateQBER(
  * Remove sampled bits from key
  */
 export function removeSampledBits(
-  key: Bit[],
+  key: BitSet,
   sampleIndices: number[]
-): Bit[] {
-  return key.filter((_, i) => !sampleIndices.includes(i));
+): BitSet {
+  const kept = new BitSet(key.length);
+  for (let i = 0; i < key.length; i++) kept.set(i, 1);
+  sampleIndices.forEach(i => {
+    if (i < key.length) kept.set(i, 0);
+  });
+  return key.select(kept);
 }
 
 /**
- * Simple parity-based error correction (Cascade-style simplified)
- * Returns corrected key and statistics
+ * Cascade error correction run locally between both keys
+ * Bob's reconciler only ever sees the parities Alice's responder reveals
  */
 export function performErrorCorrection(
-  aliceKey: Bit[],
-  bobKey: Bit[],
+  aliceKey: BitSet,
+  bobKey: BitSet,
   estimatedQBER: number
 ): ErrorCorrectionStats {
-  const correctedBobKey = [...bobKey];
-  let parityRounds = 0;
-  let bitsRevealed = 0;
-  
-  // Count initial errors
-  let initialErrors = 0;
-  for (let i = 0; i < aliceKey.length; i++) {
-    if (aliceKey[i] !== bobKey[i]) initialErrors++;
+  const reconciler = new CascadeReconciler(bobKey, estimatedQBER);
+  const responder = new CascadeResponder(aliceKey);
+
+  let request = reconciler.start();
+  while (request) {
+    request = reconciler.handleResponse(responder.answer(request));
   }
-  
-  // Simple block parity correction
-  const blockSize = Math.max(4, Math.ceil(1 / (2 * Math.max(estimatedQBER, 0.01))));
-  
-  for (let round = 0; round < 3; round++) {
-    parityRounds++;
-    let correctionsMade = false;
-    
-    for (let start = 0; start < aliceKey.length; start += blockSize) {
-      const end = Math.min(start + blockSize, aliceKey.length);
-      
-      // Calculate parity
-      let aliceParity = 0;
-      let bobParity = 0;
-      for (let i = start; i < end; i++) {
-        aliceParity ^= aliceKey[i];
-        bobParity ^= correctedBobKey[i];
-      }
-      bitsRevealed++;
-      
-      // If parity mismatch, binary search for error
-      if (aliceParity !== bobParity) {
-        correctionsMade = true;
-        // Simple correction: flip middle bit (simplified for demo)
-        const mid = Math.floor((start + end) / 2);
-        if (mid < correctedBobKey.length) {
-          correctedBobKey[mid] = correctedBobKey[mid] === 0 ? 1 : 0;
-        }
-      }
-    }
-    
-    if (!correctionsMade) break;
+
+  return reconciler.getResult();
+}
+
+/**
+ * Rate-adaptive LDPC reconciliation run locally between both keys
+ * Alice's syndrome blocks are the only information that crosses to Bob
+ */
+export function performLdpcReconciliation(
+  aliceKey: BitSet,
+  bobKey: BitSet,
+  estimatedQBER: number
+): ErrorCorrectionStats {
+  const blocks: LdpcSyndrome[] = [];
+  while (blocks.length < MAX_SYNDROME_BLOCKS) {
+    blocks.push(encodeLdpcSyndrome(aliceKey, estimatedQBER, blocks.length));
+    const result = decodeLdpcSyndrome(bobKey, blocks, estimatedQBER);
+    if (!('converged' in result)) return result;
   }
-  
-  return {
-    initialErrors,
-    parityRounds,
-    bitsRevealed,
-    correctedKey: correctedBobKey,
-  };
+  throw new Error('LDPC belief propagation did not converge');
 }
 
 /**
  * Privacy amplification using universal hashing (Toeplitz matrix)
- * Compresses key to remove Eve's partial information
+ * Compresses key to remove Eve's partial information.
+ * The public seed (n + m - 1 bits) fixes the m × n matrix, so both sides get
+ * the same output; the output length is implied by the seed length and must
+ * not exceed the finite-key bound.
  */
 export function performPrivacyAmplification(
-  key: Bit[],
-  estimatedQBER: number,
-  bitsRevealed: number
+  key: BitSet,
+  hashSeed: BitSet,
+  analysis: FiniteKeyAnalysis,
+  onProgress?: (fraction: number) => void
 ): PrivacyAmplificationStats {
   const inputLength = key.length;
-  
-  // Calculate output length using information-theoretic formula
-  // Final key length ≈ n(1 - h(QBER)) - leaked bits - security parameter
-  const h = estimatedQBER > 0 ? -estimatedQBER * Math.log2(estimatedQBER) - 
-    (1 - estimatedQBER) * Math.log2(1 - estimatedQBER) : 0;
-  
-  const securityParameter = 64; // bits for security margin
-  const outputLength = Math.max(
-    32, // minimum 32 bits
-    Math.floor(inputLength * (1 - h) - bitsRevealed - securityParameter)
-  );
-  
-  // Generate Toeplitz matrix (simplified: use hash function)
-  const amplifiedKey: Bit[] = [];
-  const seed = key.reduce((acc, bit, i) => acc + bit * (i + 1), 0);
-  const rng = seededRandom(seed);
-  
-  for (let i = 0; i < outputLength; i++) {
-    // XOR subset of input bits (universal hash)
-    let bit = 0;
-    for (let j = 0; j < inputLength; j++) {
-      if (rng() < 0.5) {
-        bit ^= key[j];
-      }
-    }
-    amplifiedKey.push(bit as Bit);
+  if (hashSeed.length - inputLength + 1 > analysis.secretKeyLength) {
+    throw new Error('Requested key length exceeds the finite-key bound');
   }
-  
+  const amplifiedKey = toeplitzHash(key, hashSeed, onProgress);
+  const outputLength = amplifiedKey.length;
+
   return {
     inputLength,
     outputLength,
     compressionRatio: outputLength / inputLength,
+    analysis,
     amplifiedKey,
   };
 }
 
 /**
- * Generate commitment hash for key verification
+ * Key verification tag: SHA-256 of the final key, cut to the log2(1/ε_cor)
+ * bits (rounded up to whole hex digits) that the finite-key bound charges for
  */
-export function generateCommitment(key: Bit[]): string {
-  const keyString = key.join('');
-  // Simple hash (in production, use SHA-256)
-  let hash = 0;
-  for (let i = 0; i < keyString.length; i++) {
-    hash = ((hash << 5) - hash) + keyString.charCodeAt(i);
-    hash = hash & hash;
-  }
-  return hash.toString(16);
+export async function generateCommitment(key: BitSet, epsilonCor: number): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', key.toBytes()));
+  const hex = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+  return hex.slice(0, Math.ceil(Math.log2(1 / epsilonCor) / 4));
 }
 
 /**
  * Verify commitment matches
  */
-export function verifyCommitment(key: Bit[], commitment: string): boolean {
-  return generateCommitment(key) === commitment;
+export async function verifyCommitment(key: BitSet, commitment: string, epsilonCor: number): Promise<boolean> {
+  return (await generateCommitment(key, epsilonCor)) === commitment;
 }
 
 /**
@@ -0,0 +1,811 @@
+// BB84 Session
+// Headless protocol state machine: consumes peer messages and user actions,
+// emits outgoing messages and events. No React or browser APIs are required.
+
+import {
+  BB84Compute,
+  BB84Config,
+  ChannelMessage,
+  ComputeOp,
+  ComputeOps,
+  ErrorCorrectionStats,
+  FiniteKeyAnalysis,
+  LdpcSyndrome,
+  MessageLink,
+  PreparedQubit,
+  PrivacyAmplificationStats,
+  SessionState,
+} from '@/types/bb84';
+import { Role } from '@/types/quantum';
+import { QuantumSimulator } from './quantum-simulator';
+import { QuantumChannel } from './quantum-channel';
+import { BitSet } from './bitset';
+import { CascadeReconciler, CascadeResponder } from './cascade';
+import { MAX_SYNDROME_BLOCKS } from './ldpc';
+import { generateToeplitzSeed } from './toeplitz';
+import { InlineCompute, ProgressCallback } from './compute';
+import { analyzeFiniteKey } from './finite-key';
+import { parseChannelMessage } from './message-schema';
+import {
+  performSifting,
+  performB92Sifting,
+  b92BobBits,
+  extractSiftedKey,
+  selectRandomSample,
+  calculateQBER,
+  removeSampledBits,
+  generateCommitment,
+  verifyCommitment,
+} from './bb84-protocol';
+
+export type BB84SessionEvent =
+  | { kind: 'state'; state: SessionState }
+  | { kind: 'notice'; title: string; description?: string; variant?: 'default' | 'destructive' }
+  | { kind: 'key-verified'; key: BitSet }
+  | { kind: 'aborted'; reason: string };
+
+type Step = SessionState['step'];
+
+// The steps in which each peer message can arrive, by receiving role.
+// 'abort' is accepted at any time; anything not listed is out of step.
+const EXPECTED_STEPS: Partial<Record<ChannelMessage['type'], { alice?: Step[]; bob?: Step[] }>> = {
+  quantum_transmission: { bob: ['idle'] },
+  prepared: { bob: ['idle'] },
+  measured: { alice: ['preparation'] },
+  announce_bases: { alice: ['sifting'], bob: ['measurement', 'sifting'] },
+  sifting_result: { alice: ['sifting', 'qber'] },
+  qber_request: { bob: ['qber'] },
+  qber_response: { alice: ['qber'] },
+  error_correction: { alice: ['error-correction'], bob: ['error-correction'] },
+  error_correction_stats: { alice: ['error-correction'] },
+  privacy_amplification: { bob: ['privacy-amplification'] },
+  final_key_commitment: { bob: ['privacy-amplification'] },
+  final_key_confirmed: { alice: ['success', 'chat'] },
+};
+
+export function createInitialState(): SessionState {
+  return {
+    step: 'idle',
+    aliceBits: new BitSet(0),
+    aliceBases: new BitSet(0),
+    bobBases: new BitSet(0),
+    bobOutcomes: new BitSet(0),
+    detected: new BitSet(0),
+    keepMask: new BitSet(0),
+    siftedKey: new BitSet(0),
+    sampleIndices: [],
+    qber: null,
+    ecStats: null,
+    paStats: null,
+    finalKey: new BitSet(0),
+    abortReason: null,
+    peerReady: false,
+    basesSent: false,
+    busy: false,
+    progress: null,
+  };
+}
+
+/**
+ * One BB84 run between Alice and Bob.
+ * The owner feeds every message from the peer into handleMessage() and calls
+ * the action methods (prepare, measure, ...) when the user asks for the next
+ * step. State changes are published as a single 'state' event once the
+ * current message or action has been fully processed, so listeners may call
+ * further actions from inside their handler.
+ *
+ * Simulation, LDPC and privacy amplification run as jobs on the compute
+ * backend (a Web Worker in the app). While a job runs, actions are ignored,
+ * peer messages wait in a backlog that is replayed in order afterwards, and
+ * state.progress reports how far the job has got.
+ */
+export class BB84Session {
+  readonly role: Role;
+  private link: MessageLink;
+  private config: BB84Config;
+  private simulator: QuantumSimulator;
+  private quantumChannel: QuantumChannel;
+  private compute: BB84Compute;
+  private current: SessionState = createInitialState();
+  private reconciler: CascadeReconciler | null = null;
+  private responder: CascadeResponder | null = null;
+  // LDPC: the syndrome blocks Alice has sent, or Bob has received, this run
+  private syndromes: LdpcSyndrome[] = [];
+  // Bob's amplified key, held back until Alice's commitment arrives
+  private amplified: PrivacyAmplificationStats | null = null;
+  private listeners = new Set<(event: BB84SessionEvent) => void>();
+  private pendingEvents: BB84SessionEvent[] = [];
+  private stateChanged = false;
+  private depth = 0;
+  // A compute job is running; peer messages are held in the backlog meanwhile
+  private working = false;
+  private backlog: unknown[] = [];
+  // Bumped on reset and abort so results of abandoned jobs are dropped
+  private generation = 0;
+  // Bob: the photons of the current round, kept for circuit export
+  private photons: PreparedQubit[] = [];
+
+  constructor(role: Role, link: MessageLink, config: BB84Config, compute: BB84Compute = new InlineCompute()) {
+    this.role = role;
+    this.link = link;
+    this.config = config;
+    this.compute = compute;
+    this.simulator = new QuantumSimulator(config.backend);
+    this.quantumChannel = new QuantumChannel(link);
+  }
+
+  get state(): SessionState {
+    return this.current;
+  }
+
+  /**
+   * Cascade is driven by Bob, LDPC starts with Alice's syndrome
+   */
+  get reconciliationInitiator(): Role {
+    return this.config.reconciliation === 'cascade' ? 'bob' : 'alice';
+  }
+
+  /**
+   * Alice announces her bases in BB84 (Bob may also start); in B92 only Bob
+   * has something to announce, namely which of his results were conclusive
+   */
+  get siftingInitiator(): Role {
+    return this.config.protocol === 'b92' ? 'bob' : 'alice';
+  }
+
+  /**
+   * Photons Bob measured in the current round (empty for Alice)
+   */
+  get receivedQubits(): PreparedQubit[] {
+    return this.photons;
+  }
+
+  configure(config: BB84Config): void {
+    this.config = config;
+  }
+
+  /**
+   * Register a listener; returns the function that removes it
+   */
+  subscribe(listener: (event: BB84SessionEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Peer messages
+
+  /**
+   * Malformed messages and messages that do not fit the current step abort
+   * the run, and the peer is told why. Nothing is processed once aborted.
+   */
+  handleMessage(data: unknown): void {
+    if (this.working) {
+      this.backlog.push(data);
+      return;
+    }
+    this.transaction(() => {
+      if (this.current.step === 'aborted') return;
+
+      let message: ChannelMessage;
+      try {
+        message = parseChannelMessage(data);
+      } catch (error) {
+        this.abort(`Rejected peer message. ${(error as Error).message}`, true);
+        return;
+      }
+
+      const step = this.current.step;
+      const expected = message.type === 'abort' ? [step] : EXPECTED_STEPS[message.type]?.[this.role];
+      if (!expected?.includes(step)) {
+        this.abort(`Rejected peer message: '${message.type}' is out of step for ${this.role} during ${step}.`, true);
+        return;
+      }
+
+      try {
+        this.dispatch(message);
+      } catch (error) {
+        this.abort(`Could not process '${message.type}': ${(error as Error).message}`, true);
+      }
+    });
+  }
+
+  private dispatch(data: ChannelMessage): void {
+    const state = this.current;
+    const role = this.role;
+
+    switch (data.type) {
+      case 'quantum_transmission':
+        if (role === 'bob') {
+          this.quantumChannel.receive(data);
+        }
+        break;
+
+      case 'prepared':
+        if (role === 'bob') {
+          if (data.protocol !== this.config.protocol) {
+            const name = (protocol: string) => protocol.toUpperCase();
+            this.abort(`Alice runs ${name(data.protocol)} but Bob is set to ${name(this.config.protocol)}.`, true);
+            break;
+          }
+          // Both sides derive the key length and the verification tag from these
+          const { epsilonSec, epsilonCor } = this.config;
+          if (data.epsilonSec !== epsilonSec || data.epsilonCor !== epsilonCor) {
+            const eps = (sec: number, cor: number) => `ε_sec = ${sec.toExponential()}, ε_cor = ${cor.toExponential()}`;
+            this.abort(`Alice uses ${eps(data.epsilonSec, data.epsilonCor)} but Bob is set to ${eps(epsilonSec, epsilonCor)}.`, true);
+            break;
+          }
+          this.update({ peerReady: true });
+          this.notice('Alice Prepared Qubits', `${data.numQubits} qubits ready for measurement`);
+        }
+        break;
+
+      case 'measured':
+        if (role === 'alice') {
+          if (data.detected.length !== state.aliceBits.length) {
+            this.abort(`Peer reported detections for ${data.detected.length} of ${state.aliceBits.length} qubits.`, true);
+            break;
+          }
+          this.update({ peerReady: true, step: 'sifting', detected: data.detected });
+        }
+        break;
+
+      case 'announce_bases': {
+        // Reply with our own bases if we have not announced them yet
+        const myBases = role === 'alice' ? state.aliceBases : state.bobBases;
+        if (data.bases.length !== myBases.length) {
+          this.abort(`Peer announced ${data.bases.length} bases for ${myBases.length} qubits.`, true);
+          break;
+        }
+        if (!state.basesSent) {
+          this.link.sendMessage({ type: 'announce_bases', bases: myBases });
+        }
+
+        const keepMask = performSifting(myBases, data.bases, state.detected);
+        const myBits = role === 'alice' ? state.aliceBits : state.bobOutcomes;
+        const siftedKey = extractSiftedKey(myBits, keepMask);
+        this.update({
+          basesSent: true,
+          aliceBases: role === 'bob' ? data.bases : state.aliceBases,
+          bobBases: role === 'alice' ? data.bases : state.bobBases,
+          keepMask,
+          siftedKey,
+          step: 'qber',
+        });
+        if (role === 'bob') {
+          this.link.sendMessage({ type: 'sifting_result', keepMask });
+        }
+        this.notice('Sifting Complete', `Kept ${siftedKey.length} bits`);
+        break;
+      }
+
+      case 'sifting_result':
+        if (role === 'alice') {
+          if (data.keepMask.length !== state.aliceBits.length) {
+            this.abort('Sifting mask does not match the number of qubits sent.', true);
+            break;
+          }
+          const siftedKey = extractSiftedKey(state.aliceBits, data.keepMask);
+          this.update({ step: 'qber', siftedKey, keepMask: data.keepMask });
+          this.notice('Sifting Complete', 'Ready for QBER check.');
+        }
+        break;
+
+      case 'qber_request':
+        if (role === 'bob') {
+          const bobSample = data.sampleIndices
+            .filter(i => i < state.siftedKey.length)
+            .map(i => state.siftedKey.get(i));
+
+          if (bobSample.length !== data.sampleIndices.length || data.sampleBits.length !== data.sampleIndices.length) {
+            this.abort('Insufficient sifted bits for QBER estimation.', true);
+            break;
+          }
+
+          this.link.sendMessage({ type: 'qber_response', sampleBits: bobSample });
+
+          const qber = calculateQBER(data.sampleBits, bobSample);
+          if (qber > this.config.qberThreshold) {
+            this.abort(`QBER of ${(qber * 100).toFixed(2)}% exceeds threshold.`);
+          } else {
+            this.update({
+              step: 'error-correction',
+              qber,
+              sampleIndices: data.sampleIndices,
+              siftedKey: removeSampledBits(state.siftedKey, data.sampleIndices),
+            });
+            this.notice('QBER Acceptable', `QBER: ${(qber * 100).toFixed(2)}%`);
+          }
+        }
+        break;
+
+      case 'qber_response':
+        if (role === 'alice') {
+          const aliceSiftedKey = extractSiftedKey(state.aliceBits, state.keepMask);
+          const aliceSample = state.sampleIndices
+            .filter(i => i < aliceSiftedKey.length)
+            .map(i => aliceSiftedKey.get(i));
+
+          if (aliceSample.length !== state.sampleIndices.length || data.sampleBits.length !== aliceSample.length) {
+            this.abort('Insufficient sifted bits for QBER evaluation.', true);
+            break;
+          }
+
+          const qber = calculateQBER(aliceSample, data.sampleBits);
+          if (qber > this.config.qberThreshold) {
+            this.abort(`QBER of ${(qber * 100).toFixed(2)}% exceeds threshold.`);
+          } else {
+            this.update({
+              step: 'error-correction',
+              qber,
+              siftedKey: removeSampledBits(aliceSiftedKey, state.sampleIndices),
+              busy: false,
+            });
+            this.notice('QBER Acceptable', `QBER: ${(qber * 100).toFixed(2)}%`);
+          }
+        }
+        break;
+
+      case 'error_correction':
+        if (role === 'alice' && data.kind === 'parity_request' && state.step === 'error-correction') {
+          // Alice is the parity oracle: she answers, Bob does the correcting
+          if (!this.responder) {
+            this.responder = new CascadeResponder(state.siftedKey);
+          }
+          const response = this.responder.answer(data);
+          this.link.sendMessage({ type: 'error_correction', kind: 'parity_response', ...response });
+        } else if (role === 'bob' && data.kind === 'parity_response' && this.reconciler) {
+          try {
+            const request = this.reconciler.handleResponse(data);
+            if (request) {
+              this.link.sendMessage({ type: 'error_correction', kind: 'parity_request', ...request });
+            } else {
+              this.completeErrorCorrection(this.reconciler.getResult());
+            }
+          } catch (error) {
+            this.abort(`Error correction failed: ${(error as Error).message}`, true);
+          }
+        } else if (role === 'bob' && data.kind === 'syndrome' && state.step === 'error-correction') {
+          if (this.reconciler) {
+            this.abort('Alice and Bob started different reconciliation methods.', true);
+            break;
+          }
+          this.syndromes.push({ seed: data.seed, syndrome: data.syndrome });
+          this.runJob(
+            'Error correction',
+            'decodeSyndrome',
+            {
+              key: state.siftedKey,
+              seeds: this.syndromes.map(block => block.seed),
+              syndrome: this.syndromes.reduce((joined, block) => joined.concat(block.syndrome), new BitSet(0)),
+              blockLengths: this.syndromes.map(block => block.syndrome.length),
+              qber: state.qber ?? 0,
+            },
+            result => {
+              if (!('converged' in result)) {
+                this.completeErrorCorrection(result);
+              } else if (this.syndromes.length < MAX_SYNDROME_BLOCKS) {
+                // Rate-adaptive: more checks rather than a pessimistic first block
+                this.link.sendMessage({ type: 'error_correction', kind: 'syndrome_request' });
+                this.notice('More Syndrome Needed', `Decoding failed with ${result.bitsRevealed} syndrome bits`);
+              } else {
+                this.abort('Error correction failed: LDPC belief propagation did not converge', true);
+              }
+            }
+          );
+        } else if (role === 'alice' && data.kind === 'syndrome_request' && state.step === 'error-correction') {
+          if (this.syndromes.length === 0 || this.syndromes.length >= MAX_SYNDROME_BLOCKS) {
+            this.abort('Unexpected request for more syndrome bits.', true);
+            break;
+          }
+          this.sendSyndrome();
+        }
+        break;
+
+      case 'error_correction_stats':
+        if (role === 'alice') {
+          // The leak fed into privacy amplification is what Alice disclosed herself, not Bob's figure
+          const bitsRevealed =
+            this.syndromes.length > 0
+              ? this.syndromes.reduce((sum, block) => sum + block.syndrome.length, 0)
+              : (this.responder?.bitsRevealed ?? 0);
+          if (data.stats.bitsRevealed !== bitsRevealed) {
+            this.abort(
+              `Bob reports ${data.stats.bitsRevealed} bits revealed during error correction, but Alice disclosed ${bitsRevealed}.`,
+              true
+            );
+            break;
+          }
+          // Alice's key is the reference, so it is already "corrected"
+          this.update({
+            ecStats: { ...data.stats, bitsRevealed, correctedKey: state.siftedKey },
+            step: 'privacy-amplification',
+            busy: false,
+          });
+          this.notice('Error Correction Complete', 'Ready for privacy amplification.');
+        }
+        break;
+
+      case 'privacy_amplification':
+        if (role === 'bob' && state.step === 'privacy-amplification') {
+          // Same public seed, same Toeplitz matrix, same output if the keys agree
+          this.runJob(
+            'Privacy amplification',
+            'amplify',
+            { key: state.siftedKey, hashSeed: data.hashSeed, analysis: this.analyze() },
+            paStats => {
+              this.amplified = paStats;
+              this.update({ paStats });
+            }
+          );
+        }
+        break;
+
+      case 'final_key_commitment':
+        if (role === 'bob') {
+          const paStats = this.amplified;
+          if (!paStats) {
+            this.abort('Key commitment received before privacy amplification.', true);
+            break;
+          }
+          const finalKey = paStats.amplifiedKey;
+          this.runTask(
+            'Key verification',
+            () => verifyCommitment(finalKey, data.commitment, this.config.epsilonCor),
+            match => {
+              this.link.sendMessage({ type: 'final_key_confirmed', match });
+              if (match) {
+                this.update({ paStats, finalKey, step: 'success' });
+                this.emit({ kind: 'key-verified', key: finalKey });
+                this.notice('Key Verified!', 'Keys match. You can now proceed to secure chat.');
+              } else {
+                this.abort('Key verification failed');
+              }
+            }
+          );
+        }
+        break;
+
+      case 'final_key_confirmed':
+        if (data.match) {
+          this.update({ step: 'success' });
+          this.emit({ kind: 'key-verified', key: state.finalKey });
+          this.notice('Key Exchange Successful!', 'Secure key established. Choose how to proceed.');
+        } else {
+          this.abort('Key commitment mismatch');
+        }
+        break;
+
+      case 'abort':
+        this.abort(`Peer aborted: ${data.reason}`);
+        break;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // User actions
+
+  /**
+   * Alice encodes random bits in random bases and sends the photons
+   */
+  prepare(): void {
+    if (this.role !== 'alice' || this.current.step !== 'idle' || this.working) return;
+    this.transaction(() => {
+      const { numQubits, backend, protocol, epsilonSec, epsilonCor } = this.config;
+      this.runJob('Qubit preparation', 'prepare', { numQubits, backend, protocol }, ({ aliceBits, aliceBases }) => {
+        const none = new BitSet(0);
+        this.update({ step: 'preparation', aliceBits, aliceBases, bobBases: none, bobOutcomes: none, detected: none });
+        this.quantumChannel.transmit(this.simulator.prepareTransmission(aliceBits, aliceBases, protocol));
+        this.link.sendMessage({ type: 'prepared', numQubits, protocol, epsilonSec, epsilonCor });
+        this.notice('Qubits Prepared', `${numQubits} qubits encoded and sent`);
+      });
+    });
+  }
+
+  /**
+   * Bob measures the received photons in random bases
+   */
+  measure(): void {
+    if (this.role !== 'bob' || !this.current.peerReady || this.current.step !== 'idle' || this.working) return;
+    this.transaction(() => {
+      const qubits = this.quantumChannel.take();
+      const { backend, eveEnabled, eve, channel, circuit, protocol } = this.config;
+      const attack = eveEnabled ? eve : null;
+      this.runJob('Measurement', 'measure', { qubits, backend, eve: attack, channel, circuit, protocol }, measurement => {
+        this.photons = qubits;
+        const { bobBases, bobOutcomes, detected, eveBases, eveOutcomes, eveKnown } = measurement;
+        // In B92 Bob starts sifting himself
+        const step = protocol === 'b92' ? 'sifting' : 'measurement';
+        this.update({ step, bobBases, bobOutcomes, detected, eveBases, eveOutcomes, eveKnown });
+        this.link.sendMessage({ type: 'measured', numQubits: qubits.length, detected });
+        const clicks = detected.popcount();
+        this.notice('Qubits Measured', `${clicks} of ${qubits.length} qubits detected`);
+      });
+    });
+  }
+
+  /**
+   * BB84: announce this side's bases; the peer replies with its own.
+   * B92: Bob announces which results were conclusive, Alice waits for him.
+   */
+  announceBases(): void {
+    const state = this.current;
+    if (state.step !== 'sifting' || state.basesSent || this.working) return;
+    if (this.config.protocol === 'b92') {
+      if (this.role === 'bob') this.transaction(() => this.siftConclusive());
+      return;
+    }
+    this.transaction(() => {
+      const bases = this.role === 'alice' ? state.aliceBases : state.bobBases;
+      this.link.sendMessage({ type: 'announce_bases', bases });
+      this.update({ basesSent: true });
+    });
+  }
+
+  /**
+   * Alice reveals a random sample of her sifted key for comparison
+   */
+  estimateQBER(): void {
+    const state = this.current;
+    // One sample per run: a second request would be out of step for Bob
+    if (this.role !== 'alice' || state.step !== 'qber' || state.sampleIndices.length > 0 || this.working) return;
+    this.transaction(() => {
+      if (state.siftedKey.length === 0) {
+        this.notice('Error', 'No sifted key available for QBER estimation', 'destructive');
+        return;
+      }
+      const sampleIndices = selectRandomSample(state.siftedKey.length, this.config.sampleSize);
+      const sampleBits = sampleIndices.map(i => state.siftedKey.get(i));
+      this.update({ sampleIndices, busy: true });
+      this.link.sendMessage({ type: 'qber_request', sampleIndices, sampleBits });
+      this.notice('QBER sample sent');
+    });
+  }
+
+  reconcile(): void {
+    const state = this.current;
+    if (this.role !== this.reconciliationInitiator || state.step !== 'error-correction') return;
+    if (this.reconciler || state.busy || this.working) return;
+    this.transaction(() => {
+      if (state.siftedKey.length === 0) {
+        this.notice('Error', 'No key bits left for error correction', 'destructive');
+        return;
+      }
+      this.update({ busy: true });
+      if (this.role === 'alice') {
+        this.sendSyndrome();
+        return;
+      }
+      this.reconciler = new CascadeReconciler(state.siftedKey, state.qber ?? 0);
+      const request = this.reconciler.start();
+      if (request) {
+        this.link.sendMessage({ type: 'error_correction', kind: 'parity_request', ...request });
+        this.notice('Cascade Started', 'Exchanging parities with Alice...');
+      } else {
+        this.completeErrorCorrection(this.reconciler.getResult());
+      }
+    });
+  }
+
+  /**
+   * Alice compresses the reconciled key to the finite-key length and commits to it
+   */
+  amplify(): void {
+    if (this.current.step !== 'privacy-amplification' || this.role !== 'alice' || this.working) return;
+    this.transaction(() => {
+      const analysis = this.analyze();
+      if (analysis.secretKeyLength <= 0) {
+        this.update({
+          paStats: { inputLength: analysis.keyLength, outputLength: 0, compressionRatio: 0, analysis, amplifiedKey: new BitSet(0) },
+        });
+        this.abort(`Finite-key bound leaves no secret key (ℓ = ${analysis.secretKeyLength}).`, true);
+        return;
+      }
+      const siftedKey = this.current.siftedKey;
+      const hashSeed = generateToeplitzSeed(siftedKey.length + analysis.secretKeyLength - 1);
+      this.runJob('Privacy amplification', 'amplify', { key: siftedKey, hashSeed, analysis }, paStats => {
+        const finalKey = paStats.amplifiedKey;
+        this.update({ paStats });
+        this.link.sendMessage({ type: 'privacy_amplification', hashSeed });
+        this.runTask(
+          'Key verification',
+          () => generateCommitment(finalKey, this.config.epsilonCor),
+          commitment => {
+            this.update({ finalKey, step: 'success' });
+            this.link.sendMessage({ type: 'final_key_commitment', commitment });
+            this.notice('Privacy Amplification Complete');
+          }
+        );
+      });
+    });
+  }
+
+  enterChat(): void {
+    this.transaction(() => {
+      if (this.current.finalKey.length === 0) {
+        this.notice('Key Not Ready', 'Please wait for the final key to be generated', 'destructive');
+        return;
+      }
+      this.update({ step: 'chat' });
+    });
+  }
+
+  /**
+   * The link to the peer is gone for good. Nothing in progress can finish, so
+   * the run is aborted locally; there is nobody left to notify.
+   */
+  connectionLost(reason: string): void {
+    this.transaction(() => {
+      if (this.current.step === 'aborted') return;
+      this.abort(`Connection lost: ${reason}`);
+    });
+  }
+
+  reset(): void {
+    this.transaction(() => {
+      this.abandonJob();
+      this.quantumChannel.clear();
+      this.reconciler = null;
+      this.responder = null;
+      this.syndromes = [];
+      this.amplified = null;
+      this.photons = [];
+      this.current = createInitialState();
+      this.stateChanged = true;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+
+  // B92: Bob keeps his conclusive results and tells Alice which slots they were
+  private siftConclusive(): void {
+    const state = this.current;
+    const keepMask = performB92Sifting(state.bobOutcomes, state.detected);
+    const siftedKey = extractSiftedKey(b92BobBits(state.bobBases), keepMask);
+    this.update({ basesSent: true, keepMask, siftedKey, step: 'qber' });
+    this.link.sendMessage({ type: 'sifting_result', keepMask });
+    this.notice('Sifting Complete', `Kept ${siftedKey.length} conclusive bits`);
+  }
+
+  // Alice encodes the next block of checks over her key and sends its syndrome
+  private sendSyndrome(): void {
+    const state = this.current;
+    const block = this.syndromes.length;
+    this.runJob('Error correction', 'encodeSyndrome', { key: state.siftedKey, qber: state.qber ?? 0, block }, syndrome => {
+      this.syndromes.push(syndrome);
+      this.link.sendMessage({ type: 'error_correction', kind: 'syndrome', ...syndrome });
+      this.notice('Syndrome Sent', `${syndrome.syndrome.length} syndrome bits sent to Bob`);
+    });
+  }
+
+  // Bob finishes reconciliation and shares the statistics (never the key)
+  private completeErrorCorrection(ecStats: ErrorCorrectionStats): void {
+    const { correctedKey, ...stats } = ecStats;
+    this.update({ ecStats, siftedKey: correctedKey, step: 'privacy-amplification', busy: false });
+    this.link.sendMessage({ type: 'error_correction_stats', stats });
+    this.notice('Error Correction Complete', `${stats.bitsRevealed} bits revealed`);
+  }
+
+  // Both sides derive the same bound from public data: sample, errors and leakage
+  private analyze(): FiniteKeyAnalysis {
+    const state = this.current;
+    return analyzeFiniteKey({
+      keyLength: state.siftedKey.length,
+      sampleSize: state.sampleIndices.length,
+      sampleErrors: Math.round((state.qber ?? 0) * state.sampleIndices.length),
+      reconciliationLeak: state.ecStats?.bitsRevealed ?? 0,
+      epsilonSec: this.config.epsilonSec,
+      epsilonCor: this.config.epsilonCor,
+    });
+  }
+
+  /**
+   * Stop the run. Failures the peer cannot see for itself are announced with
+   * an 'abort' message; QBER rejections are computed by both sides anyway.
+   */
+  private abort(reason: string, notifyPeer: boolean = false): void {
+    if (notifyPeer) {
+      this.link.sendMessage({ type: 'abort', reason });
+    }
+    this.abandonJob();
+    this.update({ step: 'aborted', abortReason: reason, busy: false, progress: null });
+    this.emit({ kind: 'aborted', reason });
+    this.notice('Protocol Aborted', reason, 'destructive');
+  }
+
+  /**
+   * Run a compute job, then apply its result in a fresh transaction and
+   * replay the peer messages that arrived meanwhile. A failed job aborts the
+   * run and tells the peer.
+   */
+  private runJob<K extends ComputeOp>(
+    task: string,
+    op: K,
+    args: ComputeOps[K]['args'],
+    finish: (result: ComputeOps[K]['result']) => void
+  ): void {
+    this.runTask(task, onProgress => this.compute.run(op, args, onProgress), finish);
+  }
+
+  // Any asynchronous step (compute job or Web Crypto call) under the same rules as runJob
+  private runTask<T>(
+    task: string,
+    start: (onProgress: ProgressCallback) => Promise<T>,
+    finish: (result: T) => void
+  ): void {
+    const generation = this.generation;
+    const current = () => generation === this.generation;
+    this.working = true;
+    this.update({ progress: { task, value: 0 } });
+
+    start(value => {
+      if (current()) this.transaction(() => this.update({ progress: { task, value } }));
+    })
+      .then(
+        result => {
+          if (!current()) return;
+          this.working = false;
+          this.transaction(() => {
+            this.update({ progress: null });
+            finish(result);
+          });
+          this.replayBacklog();
+        },
+        error => {
+          if (!current()) return;
+          this.transaction(() => this.abort(`${task} failed: ${(error as Error).message}`, true));
+        }
+      );
+  }
+
+  private replayBacklog(): void {
+    while (!this.working && this.backlog.length > 0) {
+      this.handleMessage(this.backlog.shift());
+    }
+  }
+
+  // Forget the running job (its result will be dropped) and anything it held back
+  private abandonJob(): void {
+    this.generation++;
+    this.working = false;
+    this.backlog = [];
+  }
+
+  private update(patch: Partial<SessionState>): void {
+    this.current = { ...this.current, ...patch };
+    this.stateChanged = true;
+  }
+
+  private notice(title: string, description?: string, variant?: 'default' | 'destructive'): void {
+    this.emit({ kind: 'notice', title, description, variant });
+  }
+
+  private emit(event: BB84SessionEvent): void {
+    this.pendingEvents.push(event);
+  }
+
+  /**
+   * Run a message handler or action, then publish the resulting state and
+   * events once it has finished
+   */
+  private transaction(work: () => void): void {
+    this.depth++;
+    try {
+      work();
+    } finally {
+      this.depth--;
+    }
+    if (this.depth > 0) return;
+
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+    if (this.stateChanged) {
+      this.stateChanged = false;
+      events.unshift({ kind: 'state', state: this.current });
+    }
+    events.forEach(event => this.listeners.forEach(listener => listener(event)));
+  }
+}
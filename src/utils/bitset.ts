@@ -0,0 +1,155 @@
+// Bit Set
+// Bit-packed storage for keys and other long bit strings, 32 bits per word
+
+import { Bit } from '@/types/bb84';
+
+/**
+ * Fixed-length bit string packed LSB-first into a Uint32Array.
+ * A million-bit key takes 125 KB instead of the 8 MB of a number[], and the
+ * backing buffer can be transferred to a Web Worker without copying.
+ */
+export class BitSet {
+  readonly length: number;
+  readonly words: Uint32Array;
+
+  constructor(length: number, words: Uint32Array = new Uint32Array(Math.ceil(length / 32))) {
+    if (!Number.isSafeInteger(length) || length < 0) {
+      throw new Error(`Invalid bit set length ${length}`);
+    }
+    if (words.length < Math.ceil(length / 32)) {
+      throw new Error(`${words.length} words cannot hold ${length} bits`);
+    }
+    this.length = length;
+    this.words = words;
+  }
+
+  // Bits or flags: 1 and true both set the bit
+  static fromBits(bits: ArrayLike<number | boolean>): BitSet {
+    const set = new BitSet(bits.length);
+    for (let i = 0; i < bits.length; i++) {
+      if (bits[i] === 1 || bits[i] === true) {
+        set.words[i >>> 5] |= 1 << (i & 31);
+      }
+    }
+    return set;
+  }
+
+  get(index: number): Bit {
+    return ((this.words[index >>> 5] >>> (index & 31)) & 1) as Bit;
+  }
+
+  set(index: number, bit: Bit): void {
+    if (bit === 1) {
+      this.words[index >>> 5] |= 1 << (index & 31);
+    } else {
+      this.words[index >>> 5] &= ~(1 << (index & 31));
+    }
+  }
+
+  /**
+   * Unpack bits [start, end) into an array (end is capped at the length)
+   */
+  toBits(start: number = 0, end: number = this.length): Bit[] {
+    end = Math.min(end, this.length);
+    const bits: Bit[] = new Array(Math.max(0, end - start));
+    for (let i = start; i < end; i++) {
+      bits[i - start] = this.get(i);
+    }
+    return bits;
+  }
+
+  /**
+   * Unpack into flags, for masks such as detections or the sifting mask
+   */
+  toFlags(start: number = 0, end: number = this.length): boolean[] {
+    return this.toBits(start, end).map(bit => bit === 1);
+  }
+
+  /**
+   * New bit set holding bits [start, end)
+   */
+  slice(start: number = 0, end: number = this.length): BitSet {
+    const sliced = new BitSet(Math.max(0, end - start));
+    for (let i = start; i < end; i++) {
+      if (this.get(i) === 1) sliced.set(i - start, 1);
+    }
+    return sliced;
+  }
+
+  /**
+   * New bit set holding the bits at the positions set in mask, in order
+   * (extracting the sifted key from the raw bits)
+   */
+  select(mask: BitSet): BitSet {
+    const selected = new BitSet(mask.popcount());
+    let next = 0;
+    for (let i = 0; i < this.length; i++) {
+      if (mask.get(i) === 1) selected.set(next++, this.get(i));
+    }
+    return selected;
+  }
+
+  clone(): BitSet {
+    return new BitSet(this.length, this.words.slice());
+  }
+
+  equals(other: BitSet): boolean {
+    if (other.length !== this.length) return false;
+    for (let w = 0; w < Math.ceil(this.length / 32); w++) {
+      if (this.words[w] !== other.words[w]) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Bytes of the bit string, LSB first, for hashing
+   */
+  toBytes(): Uint8Array {
+    const bytes = new Uint8Array(Math.ceil(this.length / 8));
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = (this.words[i >>> 2] >>> ((i & 3) * 8)) & 0xff;
+    }
+    return bytes;
+  }
+
+  // The JSON wire format carries bit sets as plain bit arrays
+  toJSON(): Bit[] {
+    return this.toBits();
+  }
+
+  /**
+   * New bit set holding these bits followed by the given ones
+   */
+  concat(bits: Bit[] | BitSet): BitSet {
+    const joined = new BitSet(this.length + bits.length);
+    joined.words.set(this.words.subarray(0, Math.ceil(this.length / 32)));
+    for (let i = 0; i < bits.length; i++) {
+      if ((bits instanceof BitSet ? bits.get(i) : bits[i]) === 1) {
+        const index = this.length + i;
+        joined.words[index >>> 5] |= 1 << (index & 31);
+      }
+    }
+    return joined;
+  }
+
+  /**
+   * Number of bits set to 1
+   */
+  popcount(): number {
+    let count = 0;
+    for (let w = 0; w < this.words.length; w++) {
+      let word = this.words[w];
+      word -= (word >>> 1) & 0x55555555;
+      word = (word & 0x33333333) + ((word >>> 2) & 0x33333333);
+      count += (Math.imul((word + (word >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+    }
+    return count;
+  }
+
+  /**
+   * Overwrite every bit with zero (used when key material is retired)
+   */
+  wipe(): void {
+    this.words.fill(0);
+  }
+}
@@ -0,0 +1,273 @@
+// Cascade Error Correction
+// Interactive reconciliation where Bob corrects his key using parities answered by Alice
+
+import { Bit, CascadeParityRequest, CascadeParityResponse, ErrorCorrectionStats, ParityQuery } from '@/types/bb84';
+import { BitSet } from './bitset';
+import { reconciliationEfficiency } from './entropy';
+
+const DEFAULT_PASSES = 4;
+
+/**
+ * Seeded random number generator so both sides derive the same shuffles
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Public permutation of key positions used by a Cascade pass
+ */
+export function seededPermutation(length: number, seed: number): number[] {
+  const rng = seededRandom(seed);
+  const perm = Array.from({ length }, (_, i) => i);
+  for (let i = perm.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [perm[i], perm[j]] = [perm[j], perm[i]];
+  }
+  return perm;
+}
+
+/**
+ * First-pass block size from the estimated QBER (k₁ ≈ 0.73 / QBER)
+ */
+export function initialBlockSize(keyLength: number, estimatedQBER: number): number {
+  const k = Math.ceil(0.73 / Math.max(estimatedQBER, 0.01));
+  return Math.max(1, Math.min(keyLength, Math.max(4, k)));
+}
+
+function rangeParity(key: BitSet, perm: number[], start: number, end: number): Bit {
+  let parity = 0;
+  for (let i = start; i < end; i++) {
+    parity ^= key.get(perm[i]);
+  }
+  return parity as Bit;
+}
+
+interface BinarySearch {
+  pass: number;
+  block: number;
+  start: number;
+  end: number;
+  aliceParity: Bit;
+}
+
+/**
+ * Bob's side of Cascade.
+ * Drives the passes, asks Alice for parities of (shuffled) blocks and runs
+ * BINARY on every block whose parity disagrees. Each corrected bit is traced
+ * back through the blocks of earlier passes that contain it (the cascade).
+ */
+export class CascadeReconciler {
+  private key: BitSet;
+  private estimatedQBER: number;
+  private passSeeds: number[];
+  private blockSizes: number[];
+  private perms: number[][] = [];
+  private positions: number[][] = [];
+  private blockParities: Bit[][] = [];
+  private searches: BinarySearch[] = [];
+  private pending: ParityQuery[] = [];
+  private awaitingBlockParities = false;
+  private currentPass = -1;
+  private round = 0;
+  private bitsRevealed = 0;
+  private errorsCorrected = 0;
+  private done = false;
+
+  constructor(key: BitSet, estimatedQBER: number, passes: number = DEFAULT_PASSES) {
+    this.key = key.clone();
+    this.estimatedQBER = estimatedQBER;
+    const seeds = new Uint32Array(passes);
+    crypto.getRandomValues(seeds);
+    this.passSeeds = Array.from(seeds);
+    const k1 = initialBlockSize(key.length, estimatedQBER);
+    this.blockSizes = this.passSeeds.map((_, p) => Math.max(1, Math.min(key.length, k1 * 2 ** p)));
+  }
+
+  /**
+   * First parity request (top-level blocks of pass 1)
+   */
+  start(): CascadeParityRequest | null {
+    if (this.key.length === 0) {
+      this.done = true;
+      return null;
+    }
+    this.beginPass(0);
+    return this.request();
+  }
+
+  /**
+   * Consume Alice's answers and return the next request, or null when finished
+   */
+  handleResponse(response: CascadeParityResponse): CascadeParityRequest | null {
+    if (this.done || response.round !== this.round) {
+      throw new Error('Unexpected Cascade parity response');
+    }
+    if (response.parityBits.length !== this.pending.length) {
+      throw new Error('Cascade parity response has the wrong length');
+    }
+    this.bitsRevealed += response.parityBits.length;
+
+    const queries = this.pending;
+    this.pending = [];
+
+    if (this.awaitingBlockParities) {
+      // Answers to the top-level block parities of the current pass
+      this.awaitingBlockParities = false;
+      const pass = this.currentPass;
+      this.blockParities[pass] = response.parityBits;
+      response.parityBits.forEach((aliceParity, block) => {
+        const { start, end } = queries[block];
+        if (rangeParity(this.key, this.perms[pass], start, end) !== aliceParity) {
+          this.searches.push({ pass, block, start, end, aliceParity });
+        }
+      });
+    } else {
+      // Answers for the left halves of the active BINARY searches
+      this.searches = this.searches.map((search, i) => {
+        const { start, end } = queries[i];
+        const leftAlice = response.parityBits[i];
+        const leftBob = rangeParity(this.key, this.perms[search.pass], start, end);
+        return leftAlice !== leftBob
+          ? { ...search, end, aliceParity: leftAlice }
+          : { ...search, start: end, aliceParity: (search.aliceParity ^ leftAlice) as Bit };
+      });
+    }
+
+    this.resolveSearches();
+
+    if (this.searches.length > 0) {
+      this.pending = this.searches.map(({ pass, start, end }) => ({
+        pass,
+        start,
+        end: Math.floor((start + end) / 2),
+      }));
+    } else if (this.currentPass + 1 < this.passSeeds.length) {
+      this.beginPass(this.currentPass + 1);
+    } else {
+      this.done = true;
+      return null;
+    }
+    return this.request();
+  }
+
+  /**
+   * Statistics and corrected key once the last pass has finished
+   */
+  getResult(): ErrorCorrectionStats {
+    if (!this.done) throw new Error('Cascade has not finished');
+    return {
+      method: 'cascade',
+      errorsCorrected: this.errorsCorrected,
+      parityRounds: this.currentPass + 1,
+      roundTrips: this.round,
+      bitsRevealed: this.bitsRevealed,
+      efficiency: reconciliationEfficiency(this.bitsRevealed, this.key.length, this.estimatedQBER),
+      correctedKey: this.key.clone(),
+    };
+  }
+
+  private beginPass(pass: number): void {
+    this.currentPass = pass;
+    const perm = seededPermutation(this.key.length, this.passSeeds[pass]);
+    const position: number[] = new Array(perm.length);
+    perm.forEach((keyIndex, i) => {
+      position[keyIndex] = i;
+    });
+    this.perms[pass] = perm;
+    this.positions[pass] = position;
+
+    const size = this.blockSizes[pass];
+    this.pending = [];
+    for (let start = 0; start < this.key.length; start += size) {
+      this.pending.push({ pass, start, end: Math.min(start + size, this.key.length) });
+    }
+    this.awaitingBlockParities = true;
+  }
+
+  private request(): CascadeParityRequest {
+    this.round++;
+    return { round: this.round, passSeeds: this.passSeeds, queries: this.pending };
+  }
+
+  /**
+   * Flip every bit that BINARY has isolated and cascade the change into
+   * blocks of the other passes that now have odd relative parity.
+   * A pass has at most one search per block, so searches are indexed by
+   * block and each flip only looks at the one block per pass containing it.
+   */
+  private resolveSearches(): void {
+    const passes = this.passSeeds.length;
+    const byBlock = new Map<number, BinarySearch>();
+    this.searches.forEach(search => byBlock.set(search.block * passes + search.pass, search));
+    const isolated = this.searches.filter(s => s.end - s.start === 1);
+
+    while (isolated.length > 0) {
+      const found = isolated.pop();
+      // An earlier flip of the same bit (found through another pass) fixed it
+      if (byBlock.get(found.block * passes + found.pass) !== found) continue;
+
+      const keyIndex = this.perms[found.pass][found.start];
+      this.key.set(keyIndex, this.key.get(keyIndex) === 0 ? 1 : 0);
+      this.errorsCorrected++;
+
+      for (let pass = 0; pass <= this.currentPass; pass++) {
+        const parities = this.blockParities[pass];
+        if (!parities) continue;
+        const size = this.blockSizes[pass];
+        const position = this.positions[pass][keyIndex];
+        const block = Math.floor(position / size);
+        const blockKey = block * passes + pass;
+
+        // An active search has odd relative parity, so the flip fixes it
+        // exactly when its range holds the flipped bit
+        const search = byBlock.get(blockKey);
+        if (search) {
+          if (position < search.start || position >= search.end) continue;
+          byBlock.delete(blockKey);
+        }
+
+        const start = block * size;
+        const end = Math.min(start + size, this.key.length);
+        if (rangeParity(this.key, this.perms[pass], start, end) !== parities[block]) {
+          const added = { pass, block, start, end, aliceParity: parities[block] };
+          byBlock.set(blockKey, added);
+          if (end - start === 1) isolated.push(added);
+        }
+      }
+    }
+
+    this.searches = [...byBlock.values()];
+  }
+}
+
+/**
+ * Alice's side of Cascade.
+ * Answers parity queries on her key and counts every bit of parity revealed.
+ */
+export class CascadeResponder {
+  private key: BitSet;
+  private perms: number[][] = [];
+  bitsRevealed = 0;
+  roundTrips = 0;
+
+  constructor(key: BitSet) {
+    this.key = key;
+  }
+
+  answer(request: CascadeParityRequest): CascadeParityResponse {
+    const parityBits = request.queries.map(({ pass, start, end }) => {
+      if (!this.perms[pass]) {
+        this.perms[pass] = seededPermutation(this.key.length, request.passSeeds[pass]);
+      }
+      return rangeParity(this.key, this.perms[pass], start, end);
+    });
+    this.bitsRevealed += parityBits.length;
+    this.roundTrips++;
+    return { round: request.round, parityBits };
+  }
+}
@@ -0,0 +1,101 @@
+// Compute Backends
+// The heavy simulation and post-processing steps, runnable on any thread
+
+import { BB84Compute, ComputeOp, ComputeOps, PackedFields, PreparedQubit } from '@/types/bb84';
+import { BitSet } from './bitset';
+import { QuantumSimulator } from './quantum-simulator';
+import { decodeLdpcSyndrome, encodeLdpcSyndrome } from './ldpc';
+import { performPrivacyAmplification } from './bb84-protocol';
+import { BASIS_ANNOUNCEMENT_STRATEGIES, EVE_STRATEGY_LABELS, createEveStrategy } from './eve-strategies';
+
+export type ProgressCallback = (fraction: number) => void;
+
+const OPERATIONS: {
+  [K in ComputeOp]: (args: ComputeOps[K]['args'], onProgress?: ProgressCallback) => ComputeOps[K]['result'];
+} = {
+  prepare: ({ numQubits, backend, protocol }) => {
+    const simulator = new QuantumSimulator(backend);
+    const aliceBits = simulator.generateRandomBits(numQubits);
+    // B92 has one state per bit, so the basis follows from the bit
+    const aliceBases = protocol === 'b92' ? aliceBits.clone() : simulator.generateRandomBases(numQubits);
+    return { aliceBits, aliceBases };
+  },
+  measure: ({ qubits, backend, eve, channel, circuit, protocol }, onProgress) => {
+    if (protocol === 'b92' && eve && BASIS_ANNOUNCEMENT_STRATEGIES.includes(eve.strategy)) {
+      throw new Error(`${EVE_STRATEGY_LABELS[eve.strategy]} waits for a basis announcement, which B92 does not make`);
+    }
+    const simulator = new QuantumSimulator(backend, undefined, channel, circuit);
+    const bobBases = simulator.generateRandomBases(qubits.length);
+    const strategy = eve ? createEveStrategy(eve, channel) : null;
+    return { bobBases, ...simulator.measureTransmission(qubits, bobBases, strategy, onProgress) };
+  },
+  encodeSyndrome: ({ key, qber, block }) => encodeLdpcSyndrome(key, qber, block),
+  decodeSyndrome: ({ key, seeds, syndrome, blockLengths, qber }, onProgress) => {
+    let offset = 0;
+    const blocks = seeds.map((seed, b) => {
+      offset += blockLengths[b];
+      return { seed, syndrome: syndrome.slice(offset - blockLengths[b], offset) };
+    });
+    return decodeLdpcSyndrome(key, blocks, qber, onProgress);
+  },
+  amplify: ({ key, hashSeed, analysis }, onProgress) =>
+    performPrivacyAmplification(key, hashSeed, analysis, onProgress),
+};
+
+/**
+ * Run one job to completion on the current thread
+ */
+export function runComputation<K extends ComputeOp>(
+  op: K,
+  args: ComputeOps[K]['args'],
+  onProgress?: ProgressCallback
+): ComputeOps[K]['result'] {
+  return OPERATIONS[op](args, onProgress);
+}
+
+/**
+ * Prepare job arguments or results for postMessage. Bit sets travel as their
+ * words and photons reduced to their angles. The sender may still hold the
+ * bit sets, so their words are copied once and the copies transferred.
+ */
+export function packFields(value: object, transfer: Transferable[]): PackedFields {
+  const packed: PackedFields = { plain: {}, bits: {} };
+  Object.entries(value).forEach(([name, field]) => {
+    if (field instanceof BitSet) {
+      const words = field.words.slice();
+      packed.bits[name] = { words, length: field.length };
+      transfer.push(words.buffer);
+    } else if (name === 'qubits' && Array.isArray(field)) {
+      packed.polarizations = Float64Array.from(field, (qubit: PreparedQubit) => qubit.polarization);
+      transfer.push(packed.polarizations.buffer);
+    } else {
+      packed.plain[name] = field;
+    }
+  });
+  return packed;
+}
+
+export function unpackFields<T>(packed: PackedFields): T {
+  const value: Record<string, unknown> = { ...packed.plain };
+  Object.entries(packed.bits).forEach(([name, { words, length }]) => {
+    value[name] = new BitSet(length, words);
+  });
+  if (packed.polarizations) {
+    value.qubits = Array.from(packed.polarizations, polarization => ({ polarization }));
+  }
+  return value as T;
+}
+
+/**
+ * Runs jobs on the calling thread. Used headless (tests, scripts) and
+ * wherever Web Workers are unavailable.
+ */
+export class InlineCompute implements BB84Compute {
+  run<K extends ComputeOp>(
+    op: K,
+    args: ComputeOps[K]['args'],
+    onProgress?: ProgressCallback
+  ): Promise<ComputeOps[K]['result']> {
+    return new Promise(resolve => resolve(runComputation(op, args, onProgress)));
+  }
+}
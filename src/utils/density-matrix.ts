@@ -0,0 +1,196 @@
+// Density Matrix Engine
+// Single-qubit mixed states with gates, Kraus channels and projective measurement
+
+import { Bit } from '@/types/bb84';
+
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+// 2×2 complex matrix, row-major: [m00, m01, m10, m11]
+export type Operator = [Complex, Complex, Complex, Complex];
+
+export function complex(re: number, im: number = 0): Complex {
+  return { re, im };
+}
+
+function add(a: Complex, b: Complex): Complex {
+  return { re: a.re + b.re, im: a.im + b.im };
+}
+
+function mul(a: Complex, b: Complex): Complex {
+  return { re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re };
+}
+
+function conj(a: Complex): Complex {
+  return { re: a.re, im: -a.im };
+}
+
+export function multiply(a: Operator, b: Operator): Operator {
+  return [
+    add(mul(a[0], b[0]), mul(a[1], b[2])),
+    add(mul(a[0], b[1]), mul(a[1], b[3])),
+    add(mul(a[2], b[0]), mul(a[3], b[2])),
+    add(mul(a[2], b[1]), mul(a[3], b[3])),
+  ];
+}
+
+export function adjoint(a: Operator): Operator {
+  return [conj(a[0]), conj(a[2]), conj(a[1]), conj(a[3])];
+}
+
+function scale(a: Operator, factor: number): Operator {
+  return a.map(entry => complex(entry.re * factor, entry.im * factor)) as Operator;
+}
+
+// ---------------------------------------------------------------------------
+// Gates
+
+export const IDENTITY: Operator = [complex(1), complex(0), complex(0), complex(1)];
+export const PAULI_X: Operator = [complex(0), complex(1), complex(1), complex(0)];
+export const PAULI_Y: Operator = [complex(0), complex(0, -1), complex(0, 1), complex(0)];
+export const PAULI_Z: Operator = [complex(1), complex(0), complex(0), complex(-1)];
+export const HADAMARD: Operator = scale([complex(1), complex(1), complex(1), complex(-1)], Math.SQRT1_2);
+
+export function rx(theta: number): Operator {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [complex(c), complex(0, -s), complex(0, -s), complex(c)];
+}
+
+export function ry(theta: number): Operator {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [complex(c), complex(-s), complex(s), complex(c)];
+}
+
+export function rz(theta: number): Operator {
+  return [complex(Math.cos(theta / 2), -Math.sin(theta / 2)), complex(0), complex(0), complex(Math.cos(theta / 2), Math.sin(theta / 2))];
+}
+
+/**
+ * General single-qubit rotation U(θ, φ, λ), the `u` gate of OpenQASM
+ */
+export function rotation(theta: number, phi: number, lambda: number): Operator {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [
+    complex(c),
+    complex(-Math.cos(lambda) * s, -Math.sin(lambda) * s),
+    complex(Math.cos(phi) * s, Math.sin(phi) * s),
+    complex(Math.cos(phi + lambda) * c, Math.sin(phi + lambda) * c),
+  ];
+}
+
+/**
+ * Polarization at `degrees` is the qubit cos θ|0⟩ + sin θ|1⟩, so a physical
+ * rotation by θ is a Bloch-sphere rotation by 2θ about Y
+ */
+export function polarizationRotation(degrees: number): Operator {
+  return ry((2 * degrees * Math.PI) / 180);
+}
+
+// ---------------------------------------------------------------------------
+// Kraus channels (each set satisfies Σ K†K = I)
+
+/**
+ * ρ → (1 − p)ρ + p·I/2
+ */
+export function depolarizingKraus(p: number): Operator[] {
+  return [
+    scale(IDENTITY, Math.sqrt(1 - (3 * p) / 4)),
+    scale(PAULI_X, Math.sqrt(p / 4)),
+    scale(PAULI_Y, Math.sqrt(p / 4)),
+    scale(PAULI_Z, Math.sqrt(p / 4)),
+  ];
+}
+
+export function bitFlipKraus(p: number): Operator[] {
+  return [scale(IDENTITY, Math.sqrt(1 - p)), scale(PAULI_X, Math.sqrt(p))];
+}
+
+export function phaseFlipKraus(p: number): Operator[] {
+  return [scale(IDENTITY, Math.sqrt(1 - p)), scale(PAULI_Z, Math.sqrt(p))];
+}
+
+/**
+ * Energy loss towards |0⟩ with probability γ
+ */
+export function amplitudeDampingKraus(gamma: number): Operator[] {
+  return [
+    [complex(1), complex(0), complex(0), complex(Math.sqrt(1 - gamma))],
+    [complex(0), complex(Math.sqrt(gamma)), complex(0), complex(0)],
+  ];
+}
+
+// ---------------------------------------------------------------------------
+
+/**
+ * State of one qubit as a density matrix ρ. Gates and channels update it in
+ * place; measurement samples an outcome by the Born rule and collapses it.
+ */
+export class DensityMatrix {
+  rho: Operator;
+
+  constructor(rho: Operator) {
+    this.rho = rho;
+  }
+
+  /**
+   * Pure state α|0⟩ + β|1⟩
+   */
+  static fromAmplitudes(alpha: Complex, beta: Complex): DensityMatrix {
+    return new DensityMatrix([mul(alpha, conj(alpha)), mul(alpha, conj(beta)), mul(beta, conj(alpha)), mul(beta, conj(beta))]);
+  }
+
+  static fromPolarization(degrees: number): DensityMatrix {
+    const theta = (degrees * Math.PI) / 180;
+    return DensityMatrix.fromAmplitudes(complex(Math.cos(theta)), complex(Math.sin(theta)));
+  }
+
+  static maximallyMixed(): DensityMatrix {
+    return new DensityMatrix([complex(0.5), complex(0), complex(0), complex(0.5)]);
+  }
+
+  /**
+   * ρ → UρU†
+   */
+  apply(gate: Operator): this {
+    this.rho = multiply(multiply(gate, this.rho), adjoint(gate));
+    return this;
+  }
+
+  /**
+   * ρ → Σ KρK†
+   */
+  applyKraus(operators: Operator[]): this {
+    const sum = operators
+      .map(kraus => multiply(multiply(kraus, this.rho), adjoint(kraus)))
+      .reduce((total, term) => total.map((entry, i) => add(entry, term[i])) as Operator);
+    this.rho = sum;
+    return this;
+  }
+
+  /**
+   * Probability of outcome 0 along a polarization axis: ⟨a|ρ|a⟩ for
+   * |a⟩ = cos a|0⟩ + sin a|1⟩
+   */
+  probability(axis: number): number {
+    const a = (axis * Math.PI) / 180;
+    const c = Math.cos(a);
+    const s = Math.sin(a);
+    const [r00, r01, r10, r11] = this.rho;
+    return Math.min(1, Math.max(0, c * c * r00.re + c * s * (r01.re + r10.re) + s * s * r11.re));
+  }
+
+  /**
+   * Projective measurement along a polarization axis: 0 for |a⟩, 1 for the
+   * orthogonal state. The state collapses onto the outcome.
+   */
+  measure(axis: number, rng: () => number): Bit {
+    const outcome: Bit = rng() < this.probability(axis) ? 0 : 1;
+    this.rho = DensityMatrix.fromPolarization(axis + outcome * 90).rho;
+    return outcome;
+  }
+}
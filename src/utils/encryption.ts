@@ -2,71 +2,127 @@
 // Uses the derived BB84 key for authenticated encryption
 
 import { Bit } from '@/types/bb84';
+import { bitsToBytes } from './bb84-protocol';
+
+const HKDF_SALT = new TextEncoder().encode('key-cipher-chat/bb84/v1');
+const NONCE_LENGTH = 12;
 
 /**
- * Simple XOR cipher with the derived key
- * In production, use AES-GCM or similar authenticated encryption
+ * AES-256-GCM chat cipher keyed from the final BB84 key.
+ * HKDF-SHA-256 derives one key per direction (Alice→Bob, Bob→Alice). Nonces are
+ * per-direction message counters, and the sender role plus sequence number are
+ * authenticated as associated data, so tampered, reflected or replayed frames
+ * fail to decrypt.
  */
 export class KeyCipher {
-  private key: Uint8Array;
+  private sendKey: CryptoKey;
+  private receiveKey: CryptoKey;
+  private role: 'alice' | 'bob';
+  private sendSeq = 0;
+  private lastReceivedSeq = -1;
+  private receiveQueue: Promise<void> = Promise.resolve();
 
-  constructor(keyBits: Bit[]) {
-    this.key = this.bitsToBytes(keyBits);
+  private constructor(role: 'alice' | 'bob', sendKey: CryptoKey, receiveKey: CryptoKey) {
+    this.role = role;
+    this.sendKey = sendKey;
+    this.receiveKey = receiveKey;
   }
 
-  private bitsToBytes(bits: Bit[]): Uint8Array {
-    const bytes = new Uint8Array(Math.ceil(bits.length / 8));
-    for (let i = 0; i < bits.length; i++) {
-      if (bits[i] === 1) {
-        bytes[Math.floor(i / 8)] |= 1 << (7 - (i % 8));
-      }
+  static async create(keyBits: Bit[], role: 'alice' | 'bob'): Promise<KeyCipher> {
+    if (keyBits.length === 0) {
+      throw new Error('Cannot derive chat keys from an empty key');
     }
-    return bytes;
+    const master = await crypto.subtle.importKey('raw', bitsToBytes(keyBits), 'HKDF', false, ['deriveKey']);
+    const peer = role === 'alice' ? 'bob' : 'alice';
+    const [sendKey, receiveKey] = await Promise.all([
+      KeyCipher.deriveDirectionKey(master, role, peer),
+      KeyCipher.deriveDirectionKey(master, peer, role),
+    ]);
+    return new KeyCipher(role, sendKey, receiveKey);
+  }
+
+  private static deriveDirectionKey(master: CryptoKey, from: string, to: string): Promise<CryptoKey> {
+    return crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: HKDF_SALT,
+        info: new TextEncoder().encode(`chat ${from}->${to}`),
+      },
+      master,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
   }
 
   /**
-   * Encrypt a message using the key
-   * Returns base64 encoded ciphertext and IV
+   * 96-bit nonce: 4 zero bytes followed by the 64-bit big-endian sequence number
    */
-  encrypt(plaintext: string): { encrypted: string; iv: string } {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(plaintext);
-    
-    // Generate random IV
-    const iv = new Uint8Array(16);
-    crypto.getRandomValues(iv);
-    
-    // XOR with key (repeated/stretched as needed)
-    const ciphertext = new Uint8Array(data.length);
-    for (let i = 0; i < data.length; i++) {
-      const keyByte = this.key[i % this.key.length];
-      const ivByte = iv[i % iv.length];
-      ciphertext[i] = data[i] ^ keyByte ^ ivByte;
-    }
-    
+  private nonce(seq: number): Uint8Array {
+    const nonce = new Uint8Array(NONCE_LENGTH);
+    new DataView(nonce.buffer).setBigUint64(4, BigInt(seq));
+    return nonce;
+  }
+
+  private associatedData(sender: string, seq: number): Uint8Array {
+    return new TextEncoder().encode(`chat_message|${sender}|${seq}`);
+  }
+
+  /**
+   * Encrypt a message using the send key
+   * Returns base64 encoded ciphertext, nonce and sequence number
+   */
+  async encrypt(plaintext: string): Promise<{ encrypted: string; iv: string; seq: number }> {
+    const seq = this.sendSeq++;
+    const iv = this.nonce(seq);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: this.associatedData(this.role, seq) },
+      this.sendKey,
+      new TextEncoder().encode(plaintext)
+    );
+
     return {
-      encrypted: this.arrayBufferToBase64(ciphertext),
+      encrypted: this.arrayBufferToBase64(new Uint8Array(ciphertext)),
       iv: this.arrayBufferToBase64(iv),
+      seq,
     };
   }
 
   /**
-   * Decrypt a message using the key
+   * Decrypt and authenticate a message from the peer.
+   * Frames are processed one at a time so the replay check sees them in order.
    */
-  decrypt(encrypted: string, ivString: string): string {
-    const ciphertext = this.base64ToArrayBuffer(encrypted);
+  decrypt(encrypted: string, ivString: string, seq: number): Promise<string> {
+    const result = this.receiveQueue.then(() => this.open(encrypted, ivString, seq));
+    this.receiveQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  private async open(encrypted: string, ivString: string, seq: number): Promise<string> {
+    if (!Number.isSafeInteger(seq) || seq <= this.lastReceivedSeq) {
+      throw new Error(`Replayed or out-of-order message (#${seq})`);
+    }
     const iv = this.base64ToArrayBuffer(ivString);
-    
-    // XOR with key (repeated/stretched as needed)
-    const plaintext = new Uint8Array(ciphertext.length);
-    for (let i = 0; i < ciphertext.length; i++) {
-      const keyByte = this.key[i % this.key.length];
-      const ivByte = iv[i % iv.length];
-      plaintext[i] = ciphertext[i] ^ keyByte ^ ivByte;
+    const expected = this.nonce(seq);
+    if (iv.length !== expected.length || iv.some((byte, i) => byte !== expected[i])) {
+      throw new Error('Nonce does not match the message sequence number');
     }
-    
-    const decoder = new TextDecoder();
-    return decoder.decode(plaintext);
+
+    const peer = this.role === 'alice' ? 'bob' : 'alice';
+    let plaintext: ArrayBuffer;
+    try {
+      plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv, additionalData: this.associatedData(peer, seq) },
+        this.receiveKey,
+        this.base64ToArrayBuffer(encrypted)
+      );
+    } catch {
+      throw new Error('Message failed authentication (tampered or wrong key)');
+    }
+
+    this.lastReceivedSeq = seq;
+    return new TextDecoder().decode(plaintext);
   }
 
   private arrayBufferToBase64(buffer: Uint8Array): string {
@@ -87,6 +143,69 @@ export class KeyCipher {
   }
 }
 
+/**
+ * Chat cipher that is rekeyed as background BB84 rounds distill new keys.
+ * Each epoch gets its own KeyCipher; outgoing messages always use the newest
+ * epoch, and older epochs are dropped once both sides have moved past them.
+ */
+export class EpochCipher {
+  private role: 'alice' | 'bob';
+  private ciphers = new Map<number, Promise<KeyCipher>>();
+  private latest = -1;
+
+  constructor(role: 'alice' | 'bob') {
+    this.role = role;
+  }
+
+  /**
+   * Start deriving the keys for a new epoch. Derivation is asynchronous, but
+   * the epoch is registered immediately so frames that follow can wait on it.
+   */
+  install(epoch: number, keyBits: Bit[]): void {
+    if (epoch <= this.latest) {
+      throw new Error(`Key epoch ${epoch} is not newer than ${this.latest}`);
+    }
+    const cipher = KeyCipher.create(keyBits, this.role);
+    cipher.catch(() => undefined); // reported when the epoch is used
+    this.ciphers.set(epoch, cipher);
+    this.latest = epoch;
+  }
+
+  /**
+   * Drop the keys of every epoch older than the given one
+   */
+  retire(before: number): void {
+    for (const epoch of [...this.ciphers.keys()]) {
+      if (epoch < before) {
+        this.ciphers.delete(epoch);
+      }
+    }
+  }
+
+  get currentEpoch(): number {
+    return this.latest;
+  }
+
+  async encrypt(plaintext: string): Promise<{ epoch: number; encrypted: string; iv: string; seq: number }> {
+    const epoch = this.latest;
+    const cipher = this.ciphers.get(epoch);
+    if (!cipher) {
+      throw new Error('No chat key has been installed');
+    }
+    return { epoch, ...(await (await cipher).encrypt(plaintext)) };
+  }
+
+  async decrypt(epoch: number, encrypted: string, iv: string, seq: number): Promise<string> {
+    const cipher = this.ciphers.get(epoch);
+    if (!cipher) {
+      throw new Error(
+        epoch < this.latest ? `Key for epoch ${epoch} has been erased` : `Unknown key epoch ${epoch}`
+      );
+    }
+    return (await cipher).decrypt(encrypted, iv, seq);
+  }
+}
+
 /**
  * Generate a cryptographic hash for commitment
  */
@@ -0,0 +1,18 @@
+// Information-theoretic helpers shared by reconciliation and privacy amplification
+
+/**
+ * Binary Shannon entropy h(p) in bits
+ */
+export function binaryEntropy(p: number): number {
+  if (p <= 0 || p >= 1) return 0;
+  return -p * Math.log2(p) - (1 - p) * Math.log2(1 - p);
+}
+
+/**
+ * Reconciliation efficiency f = leak / (n · h(QBER))
+ * f = 1 is the Shannon limit; null when the QBER carries no entropy
+ */
+export function reconciliationEfficiency(leak: number, keyLength: number, qber: number): number | null {
+  const limit = keyLength * binaryEntropy(qber);
+  return limit > 0 ? leak / limit : null;
+}
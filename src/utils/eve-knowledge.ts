@@ -0,0 +1,89 @@
+// Eve's Knowledge
+// Mutual information between Eve and the key after sifting, reconciliation and hashing
+
+import { EveKnowledge, ProtocolState, QkdProtocol } from '@/types/bb84';
+import { binaryEntropy } from './entropy';
+
+/**
+ * Qubit index of every bit of the current key: the sifted positions, minus
+ * the QBER sample once it has been removed
+ */
+function keyPositions(state: ProtocolState): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i < state.keepMask.length; i++) {
+    if (state.keepMask.get(i) === 1) positions.push(i);
+  }
+  if (positions.length === state.siftedKey.length) return positions;
+
+  const sampled = new Uint8Array(positions.length);
+  state.sampleIndices.forEach(i => {
+    sampled[i] = 1;
+  });
+  return positions.filter((_, i) => sampled[i] === 0);
+}
+
+/**
+ * Bennett–Brassard–Crépeau–Maurer bound on what Eve knows of an ℓ-bit hash
+ * of an n-bit key she has t bits of information on: at most 2^−s / ln 2 bits
+ * for the safety margin s = n − t − ℓ, or the shortfall −s when s < 0.
+ */
+function informationAfterHashing(keyLength: number, information: number, finalLength: number): number {
+  if (finalLength <= 0) return 0;
+  const margin = keyLength - information - finalLength;
+  const leaked = Math.max(0, -margin) + Math.pow(2, -Math.max(0, margin)) / Math.LN2;
+  return Math.min(finalLength, leaked);
+}
+
+/**
+ * Evaluate Eve's guesses against the key as Bob holds it: his sifted key,
+ * which equals Alice's once error correction has run. Eve learns the bases
+ * when they are announced, so she can tell her right-basis guesses from the
+ * others; her information is summed over those two groups as n · (1 − h(e)).
+ * In B92 nothing is announced: she reads outcome 1 in basis b as bit 1 − b
+ * (the state she ruled out belongs to b), outcome 0 as bit b, and can only
+ * tell those conclusive results from the rest.
+ * Every parity revealed during reconciliation can add one more bit.
+ * Returns null on Alice's side and without Eve, as only Bob simulates her.
+ */
+export function analyzeEveKnowledge(state: ProtocolState, protocol: QkdProtocol = 'bb84'): EveKnowledge | null {
+  const { eveKnown, eveOutcomes, eveBases, aliceBases, siftedKey } = state;
+  if (!eveKnown || !eveOutcomes || !eveBases || siftedKey.length === 0) return null;
+
+  const positions = keyPositions(state);
+  // [guesses, errors] for right-basis and wrong-basis guesses (B92: inconclusive and conclusive)
+  const groups = [
+    [0, 0],
+    [0, 0],
+  ];
+  positions.forEach((position, i) => {
+    if (eveKnown.get(position) === 0) return;
+    const outcome = eveOutcomes.get(position);
+    const b92 = protocol === 'b92';
+    const group = groups[b92 ? outcome : eveBases.get(position) === aliceBases.get(position) ? 0 : 1];
+    const guess = b92 ? eveBases.get(position) ^ outcome : outcome;
+    group[0]++;
+    if (guess !== siftedKey.get(i)) group[1]++;
+  });
+
+  const guessed = groups[0][0] + groups[1][0];
+  const errors = groups[0][1] + groups[1][1];
+  const afterSifting = groups.reduce(
+    (total, [count, wrong]) => total + (count > 0 ? count * (1 - binaryEntropy(wrong / count)) : 0),
+    0
+  );
+  const parityLeak = state.ecStats?.bitsRevealed ?? 0;
+  const afterErrorCorrection = Math.min(siftedKey.length, afterSifting + parityLeak);
+  const finalKeyLength = state.paStats ? state.paStats.outputLength : null;
+
+  return {
+    keyLength: siftedKey.length,
+    guessed,
+    correctFraction: guessed > 0 ? 1 - errors / guessed : 0,
+    afterSifting,
+    parityLeak,
+    afterErrorCorrection,
+    finalKeyLength,
+    afterPrivacyAmplification:
+      finalKeyLength === null ? null : informationAfterHashing(siftedKey.length, afterErrorCorrection, finalKeyLength),
+  };
+}
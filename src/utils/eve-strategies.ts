@@ -0,0 +1,249 @@
+// Eavesdropper Strategies
+// Attacks Eve can mount on the photons between Alice's source and the fiber
+
+import { Basis, Bit, ChannelParams, EveAttack, EveImpact, EveInterception, EveStrategy, EveStrategyName, PolarizationMeasurement, PreparedQubit } from '@/types/bb84';
+import { binaryEntropy } from './entropy';
+import { channelTransmittance } from './channel-model';
+
+export const DEFAULT_EVE_ATTACK: EveAttack = {
+  strategy: 'intercept-resend',
+  fraction: 0.5,
+  basis: 0,
+  meanPhotonNumber: 0.5,
+};
+
+export const EVE_STRATEGY_LABELS: Record<EveStrategyName, string> = {
+  'intercept-resend': 'Intercept-resend',
+  partial: 'Partial intercept-resend',
+  'fixed-basis': 'Fixed-basis',
+  breidbart: 'Breidbart basis',
+  cloning: 'Phase-covariant cloning',
+  pns: 'Photon-number splitting',
+};
+
+// Attacks that keep Eve's photon until the bases are announced, which B92 never does
+export const BASIS_ANNOUNCEMENT_STRATEGIES: EveStrategyName[] = ['cloning', 'pns'];
+
+// Measurement axis halfway between the rectilinear and diagonal bases
+const BREIDBART_AXIS = 22.5;
+
+// Bloch vector shrinking of each output of the optimal 1→2 phase-covariant cloner
+const CLONING_SHRINK = Math.SQRT1_2;
+
+/**
+ * Projective measurement along a polarization axis (Born rule): 0 means the
+ * photon passed the axis, 1 the orthogonal one
+ */
+export function measurePolarization(qubit: PreparedQubit, axis: number, rng: () => number): Bit {
+  const theta = ((qubit.polarization - axis) * Math.PI) / 180;
+  return rng() < Math.cos(theta) ** 2 ? 0 : 1;
+}
+
+/**
+ * Basis a photon fresh from Alice's source was prepared in. Eve only learns
+ * it when the bases are announced; strategies that store a photon until then
+ * measure it right away in this basis, which has the same statistics.
+ */
+function encodingBasis(qubit: PreparedQubit): Basis {
+  return (Math.round(qubit.polarization / 45) % 2) as Basis;
+}
+
+function measureAndResend(qubit: PreparedQubit, basis: Basis, measure: PolarizationMeasurement): EveInterception {
+  const guess = measure(qubit, basis * 45);
+  return { forwarded: { polarization: basis * 45 + guess * 90 }, basis, guess };
+}
+
+/**
+ * Measure every photon in a random basis and resend the result. Half the
+ * guesses are in the wrong basis, which Bob sees as a 25% QBER.
+ */
+export class InterceptResendStrategy implements EveStrategy {
+  readonly name: EveStrategyName = 'intercept-resend';
+
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception {
+    return measureAndResend(qubit, rng() < 0.5 ? 0 : 1, measure);
+  }
+
+  expectedImpact(): EveImpact {
+    return { qber: 0.25, information: 0.5 };
+  }
+}
+
+/**
+ * Intercept-resend on a random fraction of the photons only, trading
+ * information for a QBER that can stay under the abort threshold
+ */
+export class PartialInterceptStrategy implements EveStrategy {
+  readonly name: EveStrategyName = 'partial';
+  private fraction: number;
+  private attack = new InterceptResendStrategy();
+
+  constructor(fraction: number) {
+    this.fraction = fraction;
+  }
+
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception {
+    return rng() < this.fraction ? this.attack.intercept(qubit, rng, measure) : { forwarded: qubit };
+  }
+
+  expectedImpact(): EveImpact {
+    return { qber: this.fraction / 4, information: this.fraction / 2 };
+  }
+}
+
+/**
+ * Measure every photon in the same basis. Needs no random choices, but does
+ * no better than a random basis against BB84's uniform basis choice.
+ */
+export class FixedBasisStrategy implements EveStrategy {
+  readonly name: EveStrategyName = 'fixed-basis';
+  private basis: Basis;
+
+  constructor(basis: Basis) {
+    this.basis = basis;
+  }
+
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception {
+    return measureAndResend(qubit, this.basis, measure);
+  }
+
+  expectedImpact(): EveImpact {
+    return { qber: 0.25, information: 0.5 };
+  }
+}
+
+/**
+ * Measure at 22.5°, between the two bases, and resend that state. Eve guesses
+ * every bit right with probability cos²(22.5°) ≈ 85% for the same 25% QBER.
+ */
+export class BreidbartStrategy implements EveStrategy {
+  readonly name: EveStrategyName = 'breidbart';
+
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception {
+    const guess = measure(qubit, BREIDBART_AXIS);
+    return { forwarded: { polarization: BREIDBART_AXIS + guess * 90 }, guess };
+  }
+
+  expectedImpact(): EveImpact {
+    const correct = Math.cos((BREIDBART_AXIS * Math.PI) / 180) ** 2;
+    return { qber: 0.25, information: 1 - binaryEntropy(correct) };
+  }
+}
+
+/**
+ * Symmetric optimal phase-covariant cloner: Bob and Eve each get a copy with
+ * fidelity (1 + 1/√2) / 2 ≈ 85%. A shrunk Bloch vector is the original state
+ * mixed with the fully mixed one, i.e. depolarized. Eve keeps her copy until
+ * the bases are announced.
+ */
+export class CloningStrategy implements EveStrategy {
+  readonly name: EveStrategyName = 'cloning';
+
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception {
+    const basis = encodingBasis(qubit);
+    // Eve's copy, drawn from the mixture; Bob's stays a mixed state for the simulator
+    const copy = rng() < CLONING_SHRINK ? qubit : { polarization: rng() < 0.5 ? 0 : 90 };
+    return { forwarded: qubit, depolarizing: 1 - CLONING_SHRINK, basis, guess: measure(copy, basis * 45) };
+  }
+
+  expectedImpact(): EveImpact {
+    const error = (1 - CLONING_SHRINK) / 2;
+    return { qber: error, information: 1 - binaryEntropy(error) };
+  }
+}
+
+/**
+ * Photon-number splitting against a weak laser with Poisson photon numbers.
+ * Eve counts the photons without disturbing them, keeps one photon of each
+ * multi-photon pulse until the bases are announced and sends the rest over a
+ * lossless link. Single-photon pulses are blocked, or let through as far as
+ * needed to match the rate an honest fiber would deliver. No QBER at all; only
+ * the detection statistics (decoy states) can reveal her.
+ */
+export class PhotonNumberSplittingStrategy implements EveStrategy {
+  readonly name: EveStrategyName = 'pns';
+  private meanPhotonNumber: number;
+  private singlePhoton: number;
+  private multiPhoton: number;
+  private forwardMulti: number;
+  private forwardSingle: number;
+
+  constructor(meanPhotonNumber: number, transmittance: number) {
+    const mu = meanPhotonNumber;
+    const single = mu * Math.exp(-mu);
+    // Pulses an honest fiber would deliver with at least one photon
+    const target = 1 - Math.exp(-mu * transmittance);
+    this.meanPhotonNumber = mu;
+    this.singlePhoton = single;
+    this.multiPhoton = 1 - Math.exp(-mu) - single;
+    this.forwardMulti = this.multiPhoton > target ? target / this.multiPhoton : 1;
+    this.forwardSingle = this.multiPhoton > target || single === 0 ? 0 : (target - this.multiPhoton) / single;
+  }
+
+  private photonCount(rng: () => number): number {
+    const limit = Math.exp(-this.meanPhotonNumber);
+    let count = 0;
+    let product = rng();
+    while (product > limit) {
+      count++;
+      product *= rng();
+    }
+    return count;
+  }
+
+  intercept(qubit: PreparedQubit, rng: () => number, measure: PolarizationMeasurement): EveInterception {
+    const photons = this.photonCount(rng);
+    if (photons >= 2) {
+      if (rng() >= this.forwardMulti) return { forwarded: null };
+      const basis = encodingBasis(qubit);
+      return { forwarded: qubit, bypassFiber: true, basis, guess: measure(qubit, basis * 45) };
+    }
+    if (photons === 1 && rng() < this.forwardSingle) {
+      return { forwarded: qubit, bypassFiber: true };
+    }
+    return { forwarded: null };
+  }
+
+  expectedImpact(): EveImpact {
+    const split = this.multiPhoton * this.forwardMulti;
+    const delivered = split + this.singlePhoton * this.forwardSingle;
+    return { qber: 0, information: delivered > 0 ? split / delivered : 0 };
+  }
+}
+
+export function validateEveAttack(attack: EveAttack): string | null {
+  if (!(attack.fraction >= 0 && attack.fraction <= 1)) {
+    return 'Interception fraction must be between 0 and 1';
+  }
+  if (!(attack.meanPhotonNumber > 0 && attack.meanPhotonNumber <= 10)) {
+    return 'Mean photon number must be above 0 and at most 10';
+  }
+  return null;
+}
+
+/**
+ * The strategy for an attack configuration. The fiber matters only to
+ * photon-number splitting, which has to mimic its losses.
+ */
+export function createEveStrategy(attack: EveAttack, channel: ChannelParams): EveStrategy {
+  const error = validateEveAttack(attack);
+  if (error) {
+    throw new Error(error);
+  }
+  switch (attack.strategy) {
+    case 'intercept-resend':
+      return new InterceptResendStrategy();
+    case 'partial':
+      return new PartialInterceptStrategy(attack.fraction);
+    case 'fixed-basis':
+      return new FixedBasisStrategy(attack.basis);
+    case 'breidbart':
+      return new BreidbartStrategy();
+    case 'cloning':
+      return new CloningStrategy();
+    case 'pns':
+      return new PhotonNumberSplittingStrategy(attack.meanPhotonNumber, channelTransmittance(channel));
+    default:
+      throw new Error(`Unknown eavesdropping strategy ${attack.strategy}`);
+  }
+}
@@ -0,0 +1,36 @@
+// Finite-Key Security Analysis
+// Provable secret key length for BB84 with a finite number of signals
+
+import { FiniteKeyAnalysis, FiniteKeyParams } from '@/types/bb84';
+import { binaryEntropy } from './entropy';
+
+/**
+ * Finite-key bound of Tomamichel, Lim, Gisin & Renner (2012):
+ *
+ *   ℓ ≤ n(1 − h(Q + μ)) − leak_EC − log2(2 / (ε_sec² ε_cor))
+ *   μ = √( (n + k)/(n k) · (k + 1)/k · ln(2 / ε_sec) )
+ *
+ * μ bounds how far the phase error rate on the n key bits can sit above the
+ * error rate Q observed on the k sample bits, except with probability ε_sec.
+ */
+export function analyzeFiniteKey(params: FiniteKeyParams): FiniteKeyAnalysis {
+  const { keyLength: n, sampleSize: k, sampleErrors, reconciliationLeak, epsilonSec, epsilonCor } = params;
+
+  const observedQBER = k > 0 ? sampleErrors / k : 0.5;
+  const statisticalDeviation = n > 0 && k > 0
+    ? Math.sqrt(((n + k) / (n * k)) * ((k + 1) / k) * Math.log(2 / epsilonSec))
+    : Infinity;
+  const qberUpperBound = Math.min(0.5, observedQBER + statisticalDeviation);
+  const phaseErrorCost = n * binaryEntropy(qberUpperBound);
+  const securityCost = Math.log2(2 / (epsilonSec * epsilonSec * epsilonCor));
+
+  return {
+    ...params,
+    observedQBER,
+    statisticalDeviation,
+    qberUpperBound,
+    phaseErrorCost,
+    securityCost,
+    secretKeyLength: Math.floor(n - phaseErrorCost - reconciliationLeak - securityCost),
+  };
+}
@@ -0,0 +1,66 @@
+// ICE Server Settings
+// STUN/TURN configuration and wire format persisted in localStorage
+
+import { IceServerEntry, IceSettings } from '@/types/bb84';
+
+const STORAGE_KEY = 'key-cipher-chat/ice-settings';
+const ICE_URL_PATTERN = /^(stun|stuns|turn|turns):[^\s]+$/i;
+
+export const DEFAULT_ICE_SETTINGS: IceSettings = {
+  servers: [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' },
+  ],
+  relayOnly: false,
+  wireFormat: 'binary',
+};
+
+/**
+ * Returns an error message for an invalid entry, or null if it is usable
+ */
+export function validateIceServer(entry: IceServerEntry): string | null {
+  const url = entry.urls.trim();
+  if (!ICE_URL_PATTERN.test(url)) {
+    return 'URL must start with stun:, stuns:, turn: or turns:';
+  }
+  if (/^turns?:/i.test(url) && (!entry.username || !entry.credential)) {
+    return 'TURN servers need a username and credential';
+  }
+  return null;
+}
+
+export function loadIceSettings(): IceSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_ICE_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<IceSettings>;
+    if (!Array.isArray(parsed.servers)) return DEFAULT_ICE_SETTINGS;
+    return {
+      servers: parsed.servers.filter(entry => typeof entry?.urls === 'string'),
+      relayOnly: parsed.relayOnly === true,
+      wireFormat: parsed.wireFormat === 'json' ? 'json' : 'binary',
+    };
+  } catch (error) {
+    console.error('Failed to load ICE settings:', error);
+    return DEFAULT_ICE_SETTINGS;
+  }
+}
+
+export function saveIceSettings(settings: IceSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function resetIceSettings(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function toRTCConfiguration(settings: IceSettings): RTCConfiguration {
+  return {
+    iceServers: settings.servers.map(entry => ({
+      urls: entry.urls.trim(),
+      ...(entry.username ? { username: entry.username } : {}),
+      ...(entry.credential ? { credential: entry.credential } : {}),
+    })),
+    iceTransportPolicy: settings.relayOnly ? 'relay' : 'all',
+  };
+}
@@ -0,0 +1,78 @@
+// Key Pool
+// Tracks consumption of distilled key material so no bit is ever used twice
+
+import { Bit } from '@/types/bb84';
+import { BitSet } from './bitset';
+
+/**
+ * Append-only, bit-packed store of key bits with a consumption pointer.
+ * The sender takes bits from the pointer; the receiver reads them at the
+ * offset announced by the sender, which may only move forward.
+ */
+export class KeyPool {
+  private bits = new BitSet(0);
+  private pointer = 0;
+
+  constructor(bits: Bit[] = []) {
+    this.append(bits);
+  }
+
+  /**
+   * Add freshly distilled key bits to the end of the pool
+   */
+  append(bits: Bit[]): void {
+    this.bits = this.bits.concat(bits);
+  }
+
+  get capacity(): number {
+    return this.bits.length;
+  }
+
+  get used(): number {
+    return this.pointer;
+  }
+
+  get remaining(): number {
+    return this.bits.length - this.pointer;
+  }
+
+  /**
+   * Offset of the next unused bit
+   */
+  get offset(): number {
+    return this.pointer;
+  }
+
+  /**
+   * Consume the next count bits
+   */
+  take(count: number): Bit[] {
+    if (count > this.remaining) {
+      throw new Error('Key pool exhausted');
+    }
+    const taken = this.bits.toBits(this.pointer, this.pointer + count);
+    this.pointer += count;
+    return taken;
+  }
+
+  /**
+   * Read bits at an offset chosen by the peer without consuming them.
+   * Offsets behind the pointer would reuse key material and are refused.
+   */
+  peekAt(offset: number, count: number): Bit[] {
+    if (!Number.isSafeInteger(offset) || offset < this.pointer) {
+      throw new Error(`Key bits at offset ${offset} were already used`);
+    }
+    if (offset + count > this.bits.length) {
+      throw new Error('Message refers to key bits beyond the pool');
+    }
+    return this.bits.toBits(offset, offset + count);
+  }
+
+  /**
+   * Mark everything before the given offset as used
+   */
+  consumeTo(offset: number): void {
+    this.pointer = Math.max(this.pointer, offset);
+  }
+}
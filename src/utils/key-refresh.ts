@@ -0,0 +1,184 @@
+// Background Key Refresh
+// Runs complete BB84 rounds without user interaction while the chat is open
+
+import { BB84Compute, BB84Config, ChannelMessage, MessageLink, SessionState } from '@/types/bb84';
+import { Role } from '@/types/quantum';
+import { BB84Session } from './bb84-session';
+import { BitSet } from './bitset';
+import { KeyStore } from './key-store';
+import { parseChannelMessage } from './message-schema';
+
+export type KeyRefreshEvent =
+  | { kind: 'round-started' }
+  | { kind: 'round-complete'; epoch: number; keyLength: number; qber: number }
+  | { kind: 'round-failed'; reason: string };
+
+/**
+ * Automatic BB84 rounds on the 'refresh' channel.
+ * A BB84Session runs each round and this engine presses its buttons: every
+ * time the session reaches a step this side is responsible for, the matching
+ * action is taken immediately. The verified key becomes the next epoch in the
+ * KeyStore. The epoch boundary is agreed explicitly: Alice installs the key
+ * when she sends 'rekey', Bob installs it and erases older epochs on receipt,
+ * and Alice erases hers on 'rekey_ack'.
+ */
+export class KeyRefreshEngine {
+  private role: Role;
+  private link: MessageLink;
+  private store: KeyStore;
+  private session: BB84Session;
+  private epoch: number | null = null;
+  private verifiedKey: BitSet | null = null;
+  private listener: ((event: KeyRefreshEvent) => void) | null = null;
+
+  constructor(role: Role, link: MessageLink, store: KeyStore, config: BB84Config, compute?: BB84Compute) {
+    this.role = role;
+    this.link = link;
+    this.store = store;
+    this.session = new BB84Session(role, link, config, compute);
+    this.session.subscribe(event => {
+      if (event.kind === 'state') {
+        this.advance(event.state);
+      } else if (event.kind === 'key-verified') {
+        this.handleVerifiedKey(event.key);
+      } else if (event.kind === 'aborted') {
+        this.fail(event.reason);
+      }
+    });
+    link.onMessage(data => this.handle(data));
+  }
+
+  configure(config: BB84Config): void {
+    this.session.configure(config);
+  }
+
+  onEvent(listener: (event: KeyRefreshEvent) => void): void {
+    this.listener = listener;
+  }
+
+  get busy(): boolean {
+    return this.epoch !== null;
+  }
+
+  /**
+   * Alice prepares and sends a fresh batch of photons.
+   * Returns false if a round is already running or there is no epoch 0 yet.
+   */
+  startRound(): boolean {
+    const latest = this.store.latest;
+    if (this.role !== 'alice' || this.busy || !latest) return false;
+
+    this.epoch = latest.epoch + 1;
+    this.session.reset();
+    this.listener?.({ kind: 'round-started' });
+    this.session.prepare();
+    return true;
+  }
+
+  /**
+   * Abandon the current round without notifying the peer
+   */
+  reset(): void {
+    this.epoch = null;
+    this.verifiedKey = null;
+    this.session.reset();
+  }
+
+  private handle(raw: unknown): void {
+    let data: ChannelMessage;
+    try {
+      data = parseChannelMessage(raw);
+    } catch (error) {
+      const reason = `Rejected peer message. ${(error as Error).message}`;
+      this.link.sendMessage({ type: 'abort', reason });
+      this.fail(reason);
+      return;
+    }
+
+    switch (data.type) {
+      case 'quantum_transmission':
+        // New photons mean a new round; Bob starts from a clean session
+        if (this.role === 'bob') {
+          this.epoch = null;
+          this.verifiedKey = null;
+          this.session.reset();
+          this.listener?.({ kind: 'round-started' });
+        }
+        this.session.handleMessage(data);
+        break;
+
+      case 'rekey':
+        if (this.role !== 'bob') break;
+        if (!this.verifiedKey) {
+          this.link.sendMessage({ type: 'abort', reason: 'Rekey received before the key was verified' });
+          this.fail('Rekey received before the key was verified');
+          break;
+        }
+        this.epoch = data.epoch;
+        this.store.append(data.epoch, this.verifiedKey);
+        this.store.erase(data.epoch);
+        this.link.sendMessage({ type: 'rekey_ack', epoch: data.epoch });
+        this.complete();
+        break;
+
+      case 'rekey_ack':
+        if (this.role === 'alice' && data.epoch === this.epoch) {
+          this.store.erase(data.epoch);
+          this.complete();
+        }
+        break;
+
+      default:
+        this.session.handleMessage(data);
+    }
+  }
+
+  /**
+   * Take whichever action the session is waiting on from this side
+   */
+  private advance(state: SessionState): void {
+    const session = this.session;
+    if (this.role === 'bob' && state.step === 'idle' && state.peerReady) {
+      session.measure();
+    } else if (this.role === session.siftingInitiator && state.step === 'sifting' && !state.basesSent) {
+      session.announceBases();
+    } else if (this.role === 'alice' && state.step === 'qber' && state.sampleIndices.length === 0) {
+      session.estimateQBER();
+    } else if (
+      state.step === 'error-correction' &&
+      this.role === session.reconciliationInitiator &&
+      !state.busy
+    ) {
+      session.reconcile();
+    } else if (this.role === 'alice' && state.step === 'privacy-amplification') {
+      session.amplify();
+    }
+  }
+
+  private handleVerifiedKey(key: BitSet): void {
+    this.verifiedKey = key;
+    if (this.role !== 'alice' || this.epoch === null) return;
+    // From here on Alice sends under the new epoch; Bob installs it before
+    // any of those messages arrive because the data channel is ordered
+    this.store.append(this.epoch, key);
+    this.link.sendMessage({ type: 'rekey', epoch: this.epoch });
+  }
+
+  private complete(): void {
+    const state = this.session.state;
+    this.listener?.({
+      kind: 'round-complete',
+      epoch: this.epoch ?? 0,
+      keyLength: this.verifiedKey?.length ?? 0,
+      qber: state.qber ?? 0,
+    });
+    this.epoch = null;
+    this.verifiedKey = null;
+  }
+
+  private fail(reason: string): void {
+    this.epoch = null;
+    this.verifiedKey = null;
+    this.listener?.({ kind: 'round-failed', reason });
+  }
+}
@@ -0,0 +1,81 @@
+// Key Store
+// Distilled keys from successive BB84 rounds, one per epoch
+
+import { KeyEpoch } from '@/types/bb84';
+import { BitSet } from './bitset';
+
+export interface KeyStoreListener {
+  onKey(entry: KeyEpoch): void;
+  onErase?(before: number): void;
+}
+
+/**
+ * Append-only list of epoch keys, stored bit-packed.
+ * Listeners are notified synchronously, so a chat cipher has installed the
+ * new epoch before the next frame on the data channel is dispatched. Keys of
+ * retired epochs are erased to give forward secrecy.
+ */
+export class KeyStore {
+  private epochs: KeyEpoch[] = [];
+  private listeners = new Set<KeyStoreListener>();
+  private distilledBits = 0;
+
+  append(epoch: number, key: BitSet): void {
+    const latest = this.latest;
+    if (latest && epoch <= latest.epoch) {
+      throw new Error(`Key epoch ${epoch} is not newer than ${latest.epoch}`);
+    }
+    // A copy, so erasing the epoch does not wipe the caller's key
+    const entry = { epoch, key: key.clone() };
+    this.epochs.push(entry);
+    this.distilledBits += key.length;
+    this.listeners.forEach(listener => listener.onKey(entry));
+  }
+
+  /**
+   * Forget every key older than the given epoch
+   */
+  erase(before: number): void {
+    this.epochs = this.epochs.filter(entry => {
+      if (entry.epoch < before) {
+        entry.key.wipe();
+        return false;
+      }
+      return true;
+    });
+    this.listeners.forEach(listener => listener.onErase?.(before));
+  }
+
+  /**
+   * Erase every epoch and start over (a new session begins at epoch 0)
+   */
+  clear(): void {
+    this.erase(Infinity);
+    this.distilledBits = 0;
+  }
+
+  get latest(): KeyEpoch | null {
+    return this.epochs[this.epochs.length - 1] ?? null;
+  }
+
+  /**
+   * Total key bits distilled so far, including erased epochs
+   */
+  get totalBits(): number {
+    return this.distilledBits;
+  }
+
+  entries(): KeyEpoch[] {
+    return [...this.epochs];
+  }
+
+  /**
+   * Register a listener; returns the function that removes it
+   */
+  subscribe(listener: KeyStoreListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,264 @@
+// LDPC Error Correction
+// Rate-adaptive syndrome reconciliation: Alice sends H·x in blocks of checks,
+// Bob decodes with belief propagation and asks for another block if it fails
+
+import { Bit, ErrorCorrectionStats, LdpcDecodingFailure, LdpcSyndrome } from '@/types/bb84';
+import { BitSet } from './bitset';
+import { binaryEntropy, reconciliationEfficiency } from './entropy';
+
+const COLUMN_WEIGHT = 3;
+const INCREMENT_WEIGHT = 1; // later blocks keep the stacked code sparse
+const TARGET_EFFICIENCY = 1.2; // first block, sized from the measured QBER
+const INCREMENT_EFFICIENCY = 0.2; // each further block Bob asks for
+const MAX_ITERATIONS = 60;
+const MIN_QBER = 0.005; // a clean sample does not prove a clean key
+const LLR_CLAMP = 30;
+
+// Most blocks Alice sends before Bob gives up; the leak is then about f = 2.6
+export const MAX_SYNDROME_BLOCKS = 8;
+
+/**
+ * Seeded random number generator so both sides build the same matrix
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Number of syndrome bits in block `block` (0 is the first) for a key of the
+ * given length
+ */
+export function ldpcSyndromeLength(keyLength: number, estimatedQBER: number, block: number = 0): number {
+  const h = binaryEntropy(Math.max(estimatedQBER, MIN_QBER));
+  const efficiency = block === 0 ? TARGET_EFFICIENCY : INCREMENT_EFFICIENCY;
+  return Math.min(keyLength, Math.ceil(efficiency * keyLength * h) + 8);
+}
+
+// Socket construction for one block: spread `weight` edges per variable
+// evenly over the block's checks, then shuffle with the block's seed
+function blockSockets(length: number, checkCount: number, seed: number, weight: number): Int32Array {
+  const rng = seededRandom(seed);
+  const sockets = new Int32Array(length * weight);
+  for (let i = 0; i < sockets.length; i++) sockets[i] = i % checkCount;
+  for (let i = sockets.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    const swap = sockets[i];
+    sockets[i] = sockets[j];
+    sockets[j] = swap;
+  }
+  return sockets;
+}
+
+/**
+ * Sparse parity-check matrix H (checks × variables) stacked from blocks, each
+ * generated from its own public seed. Block 0 has column weight 3, later
+ * blocks weight 1; firstBlock numbers the given blocks, so Alice can build the
+ * newest block on its own. Edges are stored check by check in flat typed
+ * arrays so a million-bit code decodes without per-node allocations.
+ */
+export class LdpcCode {
+  readonly length: number;
+  readonly checkCount: number;
+  // Edges of check c are checkStart[c] .. checkStart[c + 1]; edgeVariable[e] is the variable of edge e
+  private checkStart: Int32Array;
+  private edgeVariable: Int32Array;
+  // Edges of variable v are variableEdges[variableStart[v] .. variableStart[v + 1]]
+  private variableStart: Int32Array;
+  private variableEdges: Int32Array;
+
+  constructor(length: number, blocks: { checkCount: number; seed: number }[], firstBlock: number = 0) {
+    this.length = length;
+    this.checkCount = blocks.reduce((sum, block) => sum + block.checkCount, 0);
+    const checkCount = this.checkCount;
+    const sockets = blocks.map(({ checkCount, seed }, b) => {
+      const weight = firstBlock + b === 0 ? COLUMN_WEIGHT : INCREMENT_WEIGHT;
+      return blockSockets(length, checkCount, seed, Math.min(weight, checkCount));
+    });
+    const offsets = blocks.map((_, b) => blocks.slice(0, b).reduce((sum, block) => sum + block.checkCount, 0));
+
+    // Drop repeated sockets of a variable (a check counts each variable once)
+    this.variableStart = new Int32Array(length + 1);
+    const variableChecks = new Int32Array(sockets.reduce((sum, block) => sum + block.length, 0));
+    const checkDegree = new Int32Array(checkCount);
+    let edgeCount = 0;
+    for (let v = 0; v < length; v++) {
+      this.variableStart[v] = edgeCount;
+      sockets.forEach((block, b) => {
+        const weight = block.length / length;
+        for (let w = 0; w < weight; w++) {
+          const c = offsets[b] + block[v * weight + w];
+          let repeated = false;
+          for (let k = this.variableStart[v]; k < edgeCount; k++) {
+            if (variableChecks[k] === c) repeated = true;
+          }
+          if (repeated) continue;
+          variableChecks[edgeCount++] = c;
+          checkDegree[c]++;
+        }
+      });
+    }
+    this.variableStart[length] = edgeCount;
+
+    this.checkStart = new Int32Array(checkCount + 1);
+    for (let c = 0; c < checkCount; c++) {
+      this.checkStart[c + 1] = this.checkStart[c] + checkDegree[c];
+    }
+    const fill = this.checkStart.slice(0, checkCount);
+    this.edgeVariable = new Int32Array(edgeCount);
+    this.variableEdges = new Int32Array(edgeCount);
+    for (let v = 0; v < length; v++) {
+      for (let k = this.variableStart[v]; k < this.variableStart[v + 1]; k++) {
+        const edge = fill[variableChecks[k]]++;
+        this.edgeVariable[edge] = v;
+        this.variableEdges[k] = edge;
+      }
+    }
+  }
+
+  syndrome(key: BitSet): BitSet {
+    const syndrome = new BitSet(this.checkCount);
+    for (let c = 0; c < this.checkCount; c++) {
+      let parity = 0;
+      for (let e = this.checkStart[c]; e < this.checkStart[c + 1]; e++) {
+        parity ^= key.get(this.edgeVariable[e]);
+      }
+      if (parity === 1) syndrome.set(c, 1);
+    }
+    return syndrome;
+  }
+
+  // Whether the tentative error pattern reproduces the target syndrome
+  private satisfies(errors: Uint8Array, targetSyndrome: BitSet): boolean {
+    for (let c = 0; c < this.checkCount; c++) {
+      let parity = 0;
+      for (let e = this.checkStart[c]; e < this.checkStart[c + 1]; e++) {
+        parity ^= errors[this.edgeVariable[e]];
+      }
+      if (parity !== targetSyndrome.get(c)) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Sum-product decoding of the error pattern e = x_A ⊕ x_B, given
+   * H·e = s_A ⊕ s_B and a binary symmetric channel with crossover qber.
+   * Returns the error pattern, or null if decoding does not converge.
+   */
+  decodeErrors(targetSyndrome: BitSet, qber: number, onProgress?: (fraction: number) => void): Uint8Array | null {
+    const prior = Math.log((1 - qber) / qber);
+    const { checkStart, edgeVariable, variableStart, variableEdges } = this;
+    const edgeCount = edgeVariable.length;
+
+    const toCheck = new Float64Array(edgeCount).fill(prior);
+    const toVariable = new Float64Array(edgeCount);
+    const tanhs = new Float64Array(edgeCount);
+    const errors = new Uint8Array(this.length);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      // Check nodes: tanh rule, sign flipped when the check's syndrome bit is 1.
+      // Prefix products are parked in toVariable and combined with suffixes.
+      for (let c = 0; c < this.checkCount; c++) {
+        const sign = targetSyndrome.get(c) === 1 ? -1 : 1;
+        const first = checkStart[c];
+        const last = checkStart[c + 1];
+        let prefix = 1;
+        for (let e = first; e < last; e++) {
+          tanhs[e] = Math.tanh(toCheck[e] / 2);
+          toVariable[e] = prefix;
+          prefix *= tanhs[e];
+        }
+        let suffix = 1;
+        for (let e = last - 1; e >= first; e--) {
+          const product = Math.max(-0.999999999999, Math.min(0.999999999999, toVariable[e] * suffix));
+          toVariable[e] = sign * 2 * Math.atanh(product);
+          suffix *= tanhs[e];
+        }
+      }
+
+      // Variable nodes: posterior and extrinsic messages
+      for (let v = 0; v < this.length; v++) {
+        let total = prior;
+        for (let k = variableStart[v]; k < variableStart[v + 1]; k++) {
+          total += toVariable[variableEdges[k]];
+        }
+        errors[v] = total < 0 ? 1 : 0;
+        for (let k = variableStart[v]; k < variableStart[v + 1]; k++) {
+          const e = variableEdges[k];
+          toCheck[e] = Math.max(-LLR_CLAMP, Math.min(LLR_CLAMP, total - toVariable[e]));
+        }
+      }
+
+      onProgress?.((iteration + 1) / MAX_ITERATIONS);
+      if (this.satisfies(errors, targetSyndrome)) {
+        return errors;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Alice's side: the syndrome of one more block of checks over her key
+ */
+export function encodeLdpcSyndrome(aliceKey: BitSet, estimatedQBER: number, block: number = 0): LdpcSyndrome {
+  const seed = crypto.getRandomValues(new Uint32Array(1))[0];
+  const checkCount = ldpcSyndromeLength(aliceKey.length, estimatedQBER, block);
+  const code = new LdpcCode(aliceKey.length, [{ checkCount, seed }], block);
+  return { seed, syndrome: code.syndrome(aliceKey) };
+}
+
+/**
+ * Bob's side: decode every block Alice has sent so far against his key.
+ * If belief propagation does not converge he can ask for another block;
+ * the leak is the total syndrome length either way.
+ */
+export function decodeLdpcSyndrome(
+  bobKey: BitSet,
+  blocks: LdpcSyndrome[],
+  estimatedQBER: number,
+  onProgress?: (fraction: number) => void
+): ErrorCorrectionStats | LdpcDecodingFailure {
+  const code = new LdpcCode(
+    bobKey.length,
+    blocks.map(({ seed, syndrome }) => ({ checkCount: syndrome.length, seed }))
+  );
+  // Syndrome of the error pattern: Alice's blocks back to back, XOR Bob's syndrome
+  const target = code.syndrome(bobKey);
+  let offset = 0;
+  for (const { syndrome } of blocks) {
+    for (let c = 0; c < syndrome.length; c++) {
+      if (syndrome.get(c) === 1) target.set(offset + c, (1 - target.get(offset + c)) as Bit);
+    }
+    offset += syndrome.length;
+  }
+
+  const leak = target.length;
+  const errors = code.decodeErrors(target, Math.max(estimatedQBER, MIN_QBER), onProgress);
+  if (!errors) {
+    return { converged: false, bitsRevealed: leak };
+  }
+
+  const correctedKey = bobKey.clone();
+  let errorsCorrected = 0;
+  errors.forEach((error, i) => {
+    if (error === 1) {
+      correctedKey.set(i, (1 - bobKey.get(i)) as Bit);
+      errorsCorrected++;
+    }
+  });
+
+  return {
+    method: 'ldpc',
+    errorsCorrected,
+    parityRounds: blocks.length,
+    roundTrips: blocks.length,
+    bitsRevealed: leak,
+    efficiency: reconciliationEfficiency(leak, bobKey.length, estimatedQBER),
+    correctedKey,
+  };
+}
@@ -0,0 +1,56 @@
+// In-Memory Loopback Transport
+// Connects Alice and Bob inside one page (solo demo) or one process (tests)
+
+import { Transport, WireFormat } from '@/types/bb84';
+import { decodeFrame, encodeFrame } from './wire-codec';
+
+/**
+ * One end of an in-memory link.
+ * Frames are serialized exactly as on the data channel and delivered
+ * asynchronously in send order, so the message flow matches a real
+ * connection, including the copies each side receives.
+ */
+export class LoopbackTransport implements Transport {
+  private peer: LoopbackTransport | null = null;
+  private callback: ((data: unknown) => void) | null = null;
+  private closed = false;
+  private format: WireFormat;
+
+  private constructor(format: WireFormat) {
+    this.format = format;
+  }
+
+  /**
+   * Wire two ends together
+   */
+  static pair(format: WireFormat = 'binary'): [LoopbackTransport, LoopbackTransport] {
+    const a = new LoopbackTransport(format);
+    const b = new LoopbackTransport(format);
+    a.peer = b;
+    b.peer = a;
+    return [a, b];
+  }
+
+  sendMessage(data: unknown): void {
+    const peer = this.peer;
+    if (this.closed || !peer || peer.closed) {
+      console.warn('Loopback transport closed, cannot send message');
+      return;
+    }
+    const frame = encodeFrame(data, this.format);
+    setTimeout(() => peer.deliver(frame), 0);
+  }
+
+  onMessage(callback: (data: unknown) => void): void {
+    this.callback = callback;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  private deliver(frame: string | Uint8Array): void {
+    if (this.closed) return;
+    this.callback?.(decodeFrame(frame));
+  }
+}
@@ -0,0 +1,133 @@
+// Message Schemas
+// Runtime validation of everything a peer can send, plus the wire protocol version
+
+import { z } from 'zod';
+import { Bit, ChannelMessage, PakeMessage, PreparedQubit, RoleSelectedMessage } from '@/types/bb84';
+import { BitSet } from './bitset';
+
+/**
+ * Bumped whenever a message changes shape or meaning. Both peers announce it
+ * in their first handshake message and refuse to talk to a different version.
+ */
+export const PROTOCOL_VERSION = 6;
+
+// Large arrays are checked with a plain loop rather than a schema per element, so 10^5 entries stay cheap
+const bits = z.custom<Bit[]>(
+  value => Array.isArray(value) && value.every(bit => bit === 0 || bit === 1),
+  'Expected an array of bits'
+);
+const photons = z.custom<PreparedQubit[]>(
+  value => Array.isArray(value) && value.every(qubit => Number.isFinite(qubit?.polarization)),
+  'Expected an array of photons'
+);
+// Per-qubit bases and flags arrive as bit (or boolean) arrays and are repacked
+const bitSet = z
+  .custom<BitSet | Bit[] | boolean[]>(
+    value =>
+      value instanceof BitSet ||
+      (Array.isArray(value) &&
+        (value.every(bit => bit === 0 || bit === 1) || value.every(flag => typeof flag === 'boolean'))),
+    'Expected an array of bits'
+  )
+  .transform(value => (value instanceof BitSet ? value : BitSet.fromBits(value)));
+const indices = z.custom<number[]>(
+  value => Array.isArray(value) && value.every(index => Number.isSafeInteger(index) && index >= 0),
+  'Expected an array of indices'
+);
+const count = z.number().int().nonnegative();
+const epsilon = z.number().gt(0).lt(1);
+const hex = z.string().regex(/^[0-9a-f]*$/i, 'Expected a hex string');
+const base64 = z.string().regex(/^[A-Za-z0-9+/]*={0,2}$/, 'Expected a base64 string');
+
+const parityQuery = z.object({ pass: count, start: count, end: count });
+
+const errorCorrectionStats = z.object({
+  method: z.enum(['cascade', 'ldpc']),
+  errorsCorrected: count,
+  parityRounds: count,
+  roundTrips: count,
+  bitsRevealed: count,
+  efficiency: z.number().nullable(),
+});
+
+const bb84Message = z.union([
+  z.object({
+    type: z.literal('prepared'),
+    numQubits: count,
+    protocol: z.enum(['bb84', 'b92']),
+    epsilonSec: epsilon,
+    epsilonCor: epsilon,
+  }),
+  z.object({ type: z.literal('measured'), numQubits: count, detected: bitSet }),
+  z.object({ type: z.literal('announce_bases'), bases: bitSet }),
+  z.object({ type: z.literal('sifting_result'), keepMask: bitSet }),
+  z.object({ type: z.literal('qber_request'), sampleIndices: indices, sampleBits: bits }),
+  z.object({ type: z.literal('qber_response'), sampleBits: bits }),
+  z.object({ type: z.literal('accept_or_abort'), accepted: z.boolean(), qber: z.number() }),
+  z.object({
+    type: z.literal('error_correction'),
+    kind: z.literal('parity_request'),
+    round: count,
+    passSeeds: z.array(z.number().int()),
+    queries: z.array(parityQuery),
+  }),
+  z.object({ type: z.literal('error_correction'), kind: z.literal('parity_response'), round: count, parityBits: bits }),
+  z.object({ type: z.literal('error_correction'), kind: z.literal('syndrome'), seed: z.number().int(), syndrome: bitSet }),
+  z.object({ type: z.literal('error_correction'), kind: z.literal('syndrome_request') }),
+  z.object({ type: z.literal('error_correction_stats'), stats: errorCorrectionStats }),
+  z.object({ type: z.literal('privacy_amplification'), hashSeed: bitSet }),
+  z.object({ type: z.literal('final_key_commitment'), commitment: z.string().max(128) }),
+  z.object({ type: z.literal('final_key_confirmed'), match: z.boolean() }),
+  z.object({ type: z.literal('rekey'), epoch: count }),
+  z.object({ type: z.literal('rekey_ack'), epoch: count }),
+  z.object({ type: z.literal('chat_message'), epoch: count, encrypted: z.string(), iv: z.string(), seq: count }),
+  z.object({ type: z.literal('otp_chat_message'), offset: count, ciphertext: base64, tag: hex }),
+  z.object({ type: z.literal('chat_ended') }),
+  z.object({ type: z.literal('abort'), reason: z.string().max(500) }),
+  z.object({ type: z.literal('quantum_transmission'), qubits: photons }),
+]);
+
+const roleSelected = z.object({ type: z.literal('role_selected'), role: z.enum(['alice', 'bob']) });
+
+const pakeMessage = z.union([
+  z.object({ type: z.literal('pake_share'), version: z.number().int(), share: hex }),
+  z.object({ type: z.literal('pake_confirm'), confirmation: hex }),
+]);
+
+function parse<T>(schema: z.ZodType<T>, data: unknown, what: string): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const type = (data as { type?: unknown })?.type;
+  const label = typeof type === 'string' ? `${what} '${type.slice(0, 40)}'` : what;
+  let issues = result.error.issues;
+  const union = issues.find(issue => issue.code === 'invalid_union');
+  if (union?.code === 'invalid_union') {
+    // Only the branches whose type (and kind) matched say what is wrong
+    const matching = union.unionErrors.filter(
+      error => !error.issues.some(issue => issue.path[0] === 'type' || issue.path[0] === 'kind')
+    );
+    if (matching.length === 0) {
+      throw new Error(`Unknown ${label}`);
+    }
+    issues = matching[0].issues;
+  }
+  const issue = issues[0];
+  const where = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+  throw new Error(`Malformed ${label}${where}: ${issue?.message ?? 'unexpected shape'}`);
+}
+
+/**
+ * Validates a protocol, chat or refresh payload; throws with a readable reason
+ */
+export function parseChannelMessage(data: unknown): ChannelMessage {
+  return parse(bb84Message, data, 'message') as ChannelMessage;
+}
+
+export function parseRoleSelected(data: unknown): RoleSelectedMessage {
+  return parse(roleSelected, data, 'role selection') as RoleSelectedMessage;
+}
+
+export function parsePakeMessage(data: unknown): PakeMessage {
+  return parse(pakeMessage, data, 'handshake message') as PakeMessage;
+}
@@ -0,0 +1,65 @@
+// Channel Multiplexer
+// Runs the protocol, chat and background key refresh over one transport
+
+import { ChannelMessage, ChannelName, MessageLink, MultiplexedFrame, Transport } from '@/types/bb84';
+
+/**
+ * One logical channel. Frames are tagged with the channel name on the way out
+ * and only frames carrying the same name are delivered to its handler.
+ */
+class MultiplexedChannel implements MessageLink {
+  private name: ChannelName;
+  private connection: Transport;
+  private callback: ((data: unknown) => void) | null = null;
+
+  constructor(name: ChannelName, connection: Transport) {
+    this.name = name;
+    this.connection = connection;
+  }
+
+  sendMessage(data: ChannelMessage): void {
+    const frame: MultiplexedFrame = { channel: this.name, payload: data };
+    this.connection.sendMessage(frame);
+  }
+
+  onMessage(callback: (data: unknown) => void): void {
+    this.callback = callback;
+  }
+
+  deliver(data: unknown): void {
+    this.callback?.(data);
+  }
+}
+
+/**
+ * Owns the connection's message handler and routes frames by channel.
+ * Frames are dispatched synchronously in arrival order, so ordering between
+ * channels is preserved (a rekey on 'refresh' is seen before the chat
+ * messages sent under the new key).
+ */
+export class ChannelMultiplexer {
+  private connection: Transport;
+  private channels = new Map<ChannelName, MultiplexedChannel>();
+
+  constructor(connection: Transport) {
+    this.connection = connection;
+    connection.onMessage(data => {
+      const frame = data as MultiplexedFrame;
+      const channel = this.channels.get(frame?.channel);
+      if (!channel) {
+        console.warn('Dropping frame for unknown channel:', frame?.channel);
+        return;
+      }
+      channel.deliver(frame.payload);
+    });
+  }
+
+  channel(name: ChannelName): MessageLink {
+    let channel = this.channels.get(name);
+    if (!channel) {
+      channel = new MultiplexedChannel(name, this.connection);
+      this.channels.set(name, channel);
+    }
+    return channel;
+  }
+}
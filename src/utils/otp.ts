@@ -0,0 +1,165 @@
+// One-Time Pad Chat
+// Information-theoretically secure messaging that consumes the distilled key
+
+import { Bit } from '@/types/bb84';
+import { KeyPool } from './key-pool';
+
+const MAC_PRIME = (1n << 61n) - 1n; // Mersenne prime 2^61 − 1
+const HASH_KEY_BITS = 61;
+export const OTP_TAG_BITS = 64;
+
+function bitsToBigInt(bits: Bit[]): bigint {
+  return bits.reduce((acc, bit) => (acc << 1n) | BigInt(bit), 0n);
+}
+
+function bitsToBytes(bits: Bit[]): Uint8Array {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++) {
+    if (bits[i] === 1) {
+      bytes[Math.floor(i / 8)] |= 1 << (7 - (i % 8));
+    }
+  }
+  return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Polynomial universal hash over GF(2^61 − 1), evaluated with Horner's rule.
+ * The key offset and length are hashed first so a tag cannot be moved to
+ * another position in the pool.
+ */
+function polynomialHash(hashKey: bigint, offset: number, data: Uint8Array): bigint {
+  const blocks: bigint[] = [BigInt(offset), BigInt(data.length)];
+  for (let i = 0; i < data.length; i += 7) {
+    let block = 0n;
+    for (let j = i; j < Math.min(i + 7, data.length); j++) {
+      block = (block << 8n) | BigInt(data[j]);
+    }
+    blocks.push(block);
+  }
+
+  let hash = 0n;
+  for (const block of blocks) {
+    hash = ((hash + block) * hashKey) % MAC_PRIME;
+  }
+  return hash;
+}
+
+/**
+ * Split the key so each direction has its own pool: the first half pads
+ * Alice→Bob, the second half Bob→Alice. Simultaneous sends never collide.
+ */
+function splitForDirections(keyBits: Bit[], role: 'alice' | 'bob'): { send: Bit[]; receive: Bit[] } {
+  const half = Math.floor(keyBits.length / 2);
+  const aliceToBob = keyBits.slice(0, half);
+  const bobToAlice = keyBits.slice(half, half * 2);
+  return role === 'alice'
+    ? { send: aliceToBob, receive: bobToAlice }
+    : { send: bobToAlice, receive: aliceToBob };
+}
+
+/**
+ * Largest single message each direction can carry with a fresh key of this length
+ */
+export function otpCapacityBytes(keyLength: number): number {
+  return Math.max(0, Math.floor((Math.floor(keyLength / 2) - HASH_KEY_BITS - OTP_TAG_BITS) / 8));
+}
+
+/**
+ * One-time pad cipher with a Wegman–Carter MAC.
+ * Every plaintext bit is XORed with a fresh pool bit, and every tag is the
+ * polynomial hash masked by 64 fresh pool bits. The hash key for each
+ * direction is drawn once from the pool when the pool is first filled.
+ */
+export class OneTimePadCipher {
+  private sendPool = new KeyPool();
+  private receivePool = new KeyPool();
+  private sendHashKey: bigint | null = null;
+  private receiveHashKey: bigint | null = null;
+  private role: 'alice' | 'bob';
+
+  constructor(keyBits: Bit[], role: 'alice' | 'bob') {
+    this.role = role;
+    this.addKeyMaterial(keyBits);
+  }
+
+  /**
+   * Top up both directions with newly distilled key bits
+   */
+  addKeyMaterial(keyBits: Bit[]): void {
+    const { send, receive } = splitForDirections(keyBits, this.role);
+    this.sendPool.append(send);
+    this.receivePool.append(receive);
+    if (this.sendHashKey === null && this.sendPool.remaining >= HASH_KEY_BITS) {
+      this.sendHashKey = bitsToBigInt(this.sendPool.take(HASH_KEY_BITS)) % MAC_PRIME;
+    }
+    if (this.receiveHashKey === null && this.receivePool.remaining >= HASH_KEY_BITS) {
+      this.receiveHashKey = bitsToBigInt(this.receivePool.take(HASH_KEY_BITS)) % MAC_PRIME;
+    }
+  }
+
+  /**
+   * Bytes that can still be sent in a single message (pad + tag)
+   */
+  get remainingBytes(): number {
+    if (this.sendHashKey === null) return 0;
+    return Math.max(0, Math.floor((this.sendPool.remaining - OTP_TAG_BITS) / 8));
+  }
+
+  get sendUsage(): { used: number; capacity: number } {
+    return { used: this.sendPool.used, capacity: this.sendPool.capacity };
+  }
+
+  encrypt(plaintext: string): { offset: number; ciphertext: string; tag: string } {
+    const data = new TextEncoder().encode(plaintext);
+    if (this.sendHashKey === null || data.length > this.remainingBytes) {
+      throw new Error('Key pool exhausted');
+    }
+
+    const offset = this.sendPool.offset;
+    const pad = bitsToBytes(this.sendPool.take(data.length * 8));
+    const ciphertext = data.map((byte, i) => byte ^ pad[i]);
+    const mask = bitsToBigInt(this.sendPool.take(OTP_TAG_BITS));
+    const tag = polynomialHash(this.sendHashKey, offset, ciphertext) ^ mask;
+
+    return {
+      offset,
+      ciphertext: toBase64(ciphertext),
+      tag: tag.toString(16).padStart(OTP_TAG_BITS / 4, '0'),
+    };
+  }
+
+  /**
+   * Verify and decrypt a peer message. Replays point behind the receive
+   * pointer and are refused before any key bit is touched.
+   */
+  decrypt(offset: number, ciphertext: string, tag: string): string {
+    if (this.receiveHashKey === null) {
+      throw new Error('No key material for incoming messages');
+    }
+    const data = fromBase64(ciphertext);
+    const padBits = this.receivePool.peekAt(offset, data.length * 8 + OTP_TAG_BITS);
+    const mask = bitsToBigInt(padBits.slice(data.length * 8));
+    const expected = polynomialHash(this.receiveHashKey, offset, data) ^ mask;
+
+    if (!/^[0-9a-f]+$/i.test(tag) || BigInt(`0x${tag}`) !== expected) {
+      throw new Error('Message failed authentication (Wegman–Carter tag mismatch)');
+    }
+
+    this.receivePool.consumeTo(offset + padBits.length);
+    const pad = bitsToBytes(padBits.slice(0, data.length * 8));
+    return new TextDecoder().decode(data.map((byte, i) => byte ^ pad[i]));
+  }
+}
@@ -0,0 +1,163 @@
+// NIST P-256 Point Arithmetic
+// WebCrypto only exposes ECDH/ECDSA, so the group operations SPAKE2 needs live here
+
+export interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+// null is the point at infinity
+export type CurvePoint = Point | null;
+
+const P = 0xffffffff00000001000000000000000000000000ffffffffffffffffffffffffn;
+const A = P - 3n;
+const B = 0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604bn;
+
+/** Order of the base point (the curve has cofactor 1) */
+export const ORDER = 0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551n;
+
+export const BASE_POINT: Point = {
+  x: 0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296n,
+  y: 0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5n,
+};
+
+const POINT_BYTES = 32;
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function modPow(base: bigint, exponent: bigint, m: bigint = P): bigint {
+  let result = 1n;
+  let b = mod(base, m);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % m;
+    b = (b * b) % m;
+    e >>= 1n;
+  }
+  return result;
+}
+
+function modInverse(a: bigint): bigint {
+  // p is prime, so a^(p-2) = a^-1
+  return modPow(a, P - 2n);
+}
+
+export function isOnCurve(point: Point): boolean {
+  const { x, y } = point;
+  if (x < 0n || x >= P || y < 0n || y >= P) return false;
+  return mod(y * y - (x * x * x + A * x + B)) === 0n;
+}
+
+export function negate(point: CurvePoint): CurvePoint {
+  return point && { x: point.x, y: mod(-point.y) };
+}
+
+export function add(p1: CurvePoint, p2: CurvePoint): CurvePoint {
+  if (!p1) return p2;
+  if (!p2) return p1;
+
+  let lambda: bigint;
+  if (p1.x === p2.x) {
+    if (mod(p1.y + p2.y) === 0n) return null;
+    lambda = mod((3n * p1.x * p1.x + A) * modInverse(2n * p1.y));
+  } else {
+    lambda = mod((p2.y - p1.y) * modInverse(p2.x - p1.x));
+  }
+
+  const x = mod(lambda * lambda - p1.x - p2.x);
+  const y = mod(lambda * (p1.x - x) - p1.y);
+  return { x, y };
+}
+
+/**
+ * Double-and-add scalar multiplication.
+ * Not constant-time: fine for a teaching demo, not for production keys.
+ */
+export function multiply(point: CurvePoint, scalar: bigint): CurvePoint {
+  let result: CurvePoint = null;
+  let addend = point;
+  let k = mod(scalar, ORDER);
+  while (k > 0n) {
+    if (k & 1n) result = add(result, addend);
+    addend = add(addend, addend);
+    k >>= 1n;
+  }
+  return result;
+}
+
+export function bytesToBigInt(bytes: Uint8Array): bigint {
+  let value = 0n;
+  for (const byte of bytes) {
+    value = (value << 8n) | BigInt(byte);
+  }
+  return value;
+}
+
+function bigIntToBytes(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let v = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = Number(v & 0xffn);
+    v >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Uncompressed SEC1 encoding: 0x04 || x || y
+ */
+export function encodePoint(point: CurvePoint): Uint8Array {
+  if (!point) throw new Error('Cannot encode the point at infinity');
+  const bytes = new Uint8Array(1 + 2 * POINT_BYTES);
+  bytes[0] = 0x04;
+  bytes.set(bigIntToBytes(point.x, POINT_BYTES), 1);
+  bytes.set(bigIntToBytes(point.y, POINT_BYTES), 1 + POINT_BYTES);
+  return bytes;
+}
+
+/**
+ * Decode a compressed or uncompressed SEC1 point and check it lies on the curve
+ */
+export function decodePoint(bytes: Uint8Array): Point {
+  let point: Point;
+  if (bytes.length === 1 + 2 * POINT_BYTES && bytes[0] === 0x04) {
+    point = {
+      x: bytesToBigInt(bytes.subarray(1, 1 + POINT_BYTES)),
+      y: bytesToBigInt(bytes.subarray(1 + POINT_BYTES)),
+    };
+  } else if (bytes.length === 1 + POINT_BYTES && (bytes[0] === 0x02 || bytes[0] === 0x03)) {
+    const x = bytesToBigInt(bytes.subarray(1));
+    // p ≡ 3 (mod 4), so the square root is a single exponentiation
+    let y = modPow(x * x * x + A * x + B, (P + 1n) / 4n);
+    if ((y & 1n) !== BigInt(bytes[0] & 1)) y = mod(-y);
+    point = { x, y };
+  } else {
+    throw new Error('Invalid point encoding');
+  }
+
+  if (!isOnCurve(point)) {
+    throw new Error('Point is not on the P-256 curve');
+  }
+  return point;
+}
+
+/**
+ * Uniform scalar in [1, n-1] from 48 random bytes (bias below 2^-128)
+ */
+export function randomScalar(): bigint {
+  return reduceScalar(crypto.getRandomValues(new Uint8Array(48)));
+}
+
+/**
+ * Map at least 48 bytes of hash output onto a non-zero scalar
+ */
+export function reduceScalar(bytes: Uint8Array): bigint {
+  return mod(bytesToBigInt(bytes), ORDER - 1n) + 1n;
+}
+
+export function scalarToBytes(scalar: bigint): Uint8Array {
+  return bigIntToBytes(mod(scalar, ORDER), POINT_BYTES);
+}
@@ -0,0 +1,313 @@
+// OpenQASM Circuits
+// Per-qubit export of a run for offline cross-checks, and single-qubit programs imported as a custom channel
+
+import {
+  ChannelParams,
+  CircuitOperation,
+  CustomCircuit,
+  EveAttack,
+  PreparedQubit,
+  ProtocolState,
+  QasmVersion,
+  QkdProtocol,
+} from '@/types/bb84';
+import {
+  DensityMatrix,
+  HADAMARD,
+  IDENTITY,
+  Operator,
+  PAULI_X,
+  PAULI_Y,
+  PAULI_Z,
+  complex,
+  rotation,
+  rx,
+  ry,
+  rz,
+} from './density-matrix';
+
+// Qubits written by a default export; each is a separate program
+export const QASM_EXPORT_LIMIT = 1000;
+
+function phase(lambda: number): Operator {
+  return [complex(1), complex(0), complex(0), complex(Math.cos(lambda), Math.sin(lambda))];
+}
+
+const SQRT_X: Operator = [complex(0.5, 0.5), complex(0.5, -0.5), complex(0.5, -0.5), complex(0.5, 0.5)];
+
+// Single-qubit gates of qelib1.inc and stdgates.inc, by parameter count
+const GATES: Record<string, { params: number; matrix: (params: number[]) => Operator }> = {
+  id: { params: 0, matrix: () => IDENTITY },
+  x: { params: 0, matrix: () => PAULI_X },
+  y: { params: 0, matrix: () => PAULI_Y },
+  z: { params: 0, matrix: () => PAULI_Z },
+  h: { params: 0, matrix: () => HADAMARD },
+  s: { params: 0, matrix: () => phase(Math.PI / 2) },
+  sdg: { params: 0, matrix: () => phase(-Math.PI / 2) },
+  t: { params: 0, matrix: () => phase(Math.PI / 4) },
+  tdg: { params: 0, matrix: () => phase(-Math.PI / 4) },
+  sx: { params: 0, matrix: () => SQRT_X },
+  rx: { params: 1, matrix: ([theta]) => rx(theta) },
+  ry: { params: 1, matrix: ([theta]) => ry(theta) },
+  rz: { params: 1, matrix: ([theta]) => rz(theta) },
+  p: { params: 1, matrix: ([lambda]) => phase(lambda) },
+  u1: { params: 1, matrix: ([lambda]) => phase(lambda) },
+  u2: { params: 2, matrix: ([phi, lambda]) => rotation(Math.PI / 2, phi, lambda) },
+  u3: { params: 3, matrix: ([theta, phi, lambda]) => rotation(theta, phi, lambda) },
+  u: { params: 3, matrix: ([theta, phi, lambda]) => rotation(theta, phi, lambda) },
+};
+
+// Names that differ between the two standard libraries
+const VERSION_NAMES: Record<QasmVersion, Record<string, string>> = {
+  2: { p: 'u1', u: 'u3' },
+  3: { u1: 'p', u3: 'u' },
+};
+
+// ---------------------------------------------------------------------------
+// Import
+
+/**
+ * Evaluate a gate parameter: numbers, pi, + − * / and parentheses
+ */
+function evaluate(expression: string): number {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|pi|π|[-+*/()]|\S/gi) ?? [];
+  let position = 0;
+
+  const primary = (): number => {
+    const token = tokens[position++];
+    if (token === '-') return -primary();
+    if (token === '+') return primary();
+    if (token === '(') {
+      const value = sum();
+      if (tokens[position++] !== ')') throw new Error(`Missing ) in "${expression}"`);
+      return value;
+    }
+    if (token !== undefined && /^(pi|π)$/i.test(token)) return Math.PI;
+    const value = Number(token);
+    if (token === undefined || Number.isNaN(value)) throw new Error(`Invalid parameter "${expression}"`);
+    return value;
+  };
+  const product = (): number => {
+    let value = primary();
+    while (tokens[position] === '*' || tokens[position] === '/') {
+      value = tokens[position++] === '*' ? value * primary() : value / primary();
+    }
+    return value;
+  };
+  const sum = (): number => {
+    let value = product();
+    while (tokens[position] === '+' || tokens[position] === '-') {
+      value = tokens[position++] === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  const value = sum();
+  if (position !== tokens.length) throw new Error(`Invalid parameter "${expression}"`);
+  return value;
+}
+
+/**
+ * Parse a single-qubit OpenQASM 2 or 3 program: gates from the standard
+ * libraries, measure and reset. Declarations, includes and barriers are
+ * skipped; anything else (multi-qubit gates, conditionals, gate definitions)
+ * is rejected with its line number.
+ */
+export function parseQasm(source: string, name: string): CustomCircuit {
+  // Blank out comments but keep the newlines for line numbers
+  const code = source.replace(/\/\*[\s\S]*?\*\/|\/\/[^\n]*/g, comment => comment.replace(/[^\n]/g, ' '));
+  const operations: CircuitOperation[] = [];
+  let qubit: string | null = null;
+  let offset = 0;
+
+  for (const raw of code.split(';')) {
+    const line = code.slice(0, offset).split('\n').length + (raw.match(/^\s*/)?.[0].split('\n').length ?? 1) - 1;
+    offset += raw.length + 1;
+    const statement = raw.trim().replace(/\s+/g, ' ');
+    if (!statement) continue;
+    const fail = (reason: string): never => {
+      throw new Error(`Line ${line}: ${reason}`);
+    };
+
+    if (/^OPENQASM /i.test(statement)) {
+      if (!/^OPENQASM [23](\.\d+)?$/i.test(statement)) fail(`unsupported version "${statement}"`);
+      continue;
+    }
+    if (/^include /.test(statement) || /^barrier\b/.test(statement)) continue;
+
+    const declaration = statement.match(/^(qreg|creg) (\w+)\[(\d+)\]$|^(qubit|bit)(?:\[(\d+)\])? (\w+)$/);
+    if (declaration) {
+      const isQubit = declaration[1] === 'qreg' || declaration[4] === 'qubit';
+      const size = Number(declaration[3] ?? declaration[5] ?? 1);
+      if (isQubit) {
+        if (qubit !== null || size !== 1) fail('only programs on a single qubit are supported');
+        qubit = declaration[2] ?? declaration[6];
+      }
+      continue;
+    }
+
+    const operand = (text: string): void => {
+      const match = text.trim().match(/^(\w+)(?:\[0\])?$/);
+      if (!match || match[1] !== qubit) fail(`unknown qubit "${text.trim()}"`);
+    };
+
+    const measure = statement.match(/^measure (.+?)(?: -> .+)?$|^.+? = measure (.+)$/);
+    if (measure) {
+      operand(measure[1] ?? measure[2]);
+      operations.push({ kind: 'measure' });
+      continue;
+    }
+    const reset = statement.match(/^reset (.+)$/);
+    if (reset) {
+      operand(reset[1]);
+      operations.push({ kind: 'reset' });
+      continue;
+    }
+
+    const call = statement.match(/^(\w+) ?(?:\((.*)\))? ?([^()]+)$/);
+    const gateName = call?.[1] === 'U' ? 'u' : call?.[1];
+    const gate = gateName ? GATES[gateName] : undefined;
+    if (!call || !gate) {
+      fail(`unsupported statement "${statement}"`);
+    }
+    const params = call[2] !== undefined && call[2].trim() !== '' ? call[2].split(',').map(evaluate) : [];
+    if (params.length !== gate.params) fail(`${gateName} takes ${gate.params} parameters`);
+    if (call[3].includes(',')) fail('only single-qubit gates are supported');
+    operand(call[3]);
+    operations.push({ kind: 'gate', name: gateName, params });
+  }
+
+  if (qubit === null) {
+    throw new Error('The program declares no qubit');
+  }
+  return { name, operations };
+}
+
+/**
+ * Precompute the gate matrices; the result runs the circuit on one photon
+ */
+export function compileCircuit(circuit: CustomCircuit): (state: DensityMatrix, rng: () => number) => void {
+  const steps = circuit.operations.map(operation => {
+    if (operation.kind === 'gate') {
+      const gate = GATES[operation.name];
+      if (!gate) throw new Error(`Unknown gate ${operation.name}`);
+      const matrix = gate.matrix(operation.params);
+      return (state: DensityMatrix) => state.apply(matrix);
+    }
+    if (operation.kind === 'measure') {
+      return (state: DensityMatrix, rng: () => number) => state.measure(0, rng);
+    }
+    return (state: DensityMatrix) => {
+      state.rho = DensityMatrix.fromPolarization(0).rho;
+    };
+  });
+  return (state, rng) => steps.forEach(step => step(state, rng));
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+function formatNumber(value: number): string {
+  return Number(value.toPrecision(12)).toString();
+}
+
+interface ExportOptions {
+  qubits: PreparedQubit[]; // the photons Bob received
+  state: ProtocolState;
+  eve: EveAttack | null;
+  channel: ChannelParams;
+  circuit: CustomCircuit | null;
+  protocol: QkdProtocol;
+  version: QasmVersion;
+  limit?: number;
+}
+
+/**
+ * One standalone program per qubit, separated by comment lines: Alice's
+ * preparation, Eve's operations, the channel's misalignment and Bob's
+ * measurement, with the simulated outcomes as comments. Noise channels and
+ * attacks that need ancillas have no gate form and are described instead.
+ */
+export function exportRunQasm(options: ExportOptions): string {
+  const { qubits, state, eve, channel, circuit, protocol, version, limit = QASM_EXPORT_LIMIT } = options;
+  const names = VERSION_NAMES[version];
+  const gate = (name: string, params: number[] = []) =>
+    `${names[name] ?? name}${params.length > 0 ? `(${params.map(formatNumber).join(', ')})` : ''} q[0];`;
+  const measure = (register: string) =>
+    version === 2 ? `measure q[0] -> ${register}[0];` : `${register}[0] = measure q[0];`;
+
+  const noise = (['depolarizing', 'bitFlip', 'phaseFlip'] as const).filter(name => channel[name] > 0);
+  const count = Math.min(limit, qubits.length);
+  const lines = [
+    `// ${protocol.toUpperCase()} run exported as OpenQASM ${version}.0: ${count} of ${qubits.length} qubits`,
+    '// Every block below is a standalone single-qubit program',
+    ...(noise.length > 0
+      ? [`// Channel noise not expressible as gates: ${noise.map(name => `${name} ${channel[name]}`).join(', ')}`]
+      : []),
+  ];
+
+  for (let i = 0; i < count; i++) {
+    const polarization = qubits[i].polarization;
+    const step = Math.round(polarization / 45);
+    const basis = step % 2;
+    const bit = Math.floor(step / 2) % 2;
+    const eveOps: string[] = [];
+
+    if (eve && state.eveKnown) {
+      if (['intercept-resend', 'partial', 'fixed-basis'].includes(eve.strategy) && state.eveKnown.get(i) === 1) {
+        eveOps.push(`// Eve: measures and resends in the ${state.eveBases?.get(i) === 1 ? '×' : '+'} basis`);
+        eveOps.push(...(state.eveBases?.get(i) === 1 ? [gate('h'), measure('eve'), gate('h')] : [measure('eve')]));
+      } else if (eve.strategy === 'breidbart') {
+        // Rotate the 22.5° axis onto |0⟩, measure, rotate back
+        eveOps.push('// Eve: measures and resends at 22.5°');
+        eveOps.push(gate('ry', [-Math.PI / 4]), measure('eve'), gate('ry', [Math.PI / 4]));
+      } else if (eve.strategy === 'cloning') {
+        eveOps.push('// Eve: phase-covariant cloning (needs an ancilla; Bob receives the state depolarized by 1 − 1/√2)');
+      } else if (eve.strategy === 'pns') {
+        eveOps.push(
+          state.eveKnown.get(i) === 1 ? '// Eve: splits off one photon of a multi-photon pulse' : '// Eve: pulse blocked or forwarded'
+        );
+      }
+    }
+    if (circuit) {
+      eveOps.push(`// Custom circuit ${circuit.name}`);
+      circuit.operations.forEach(operation => {
+        if (operation.kind === 'gate') eveOps.push(gate(operation.name, operation.params));
+        else if (operation.kind === 'measure') eveOps.push(measure('eve'));
+        else eveOps.push('reset q[0];');
+      });
+    }
+
+    const bobBasis = state.bobBases.get(i);
+    const clicked = state.detected.length === 0 || state.detected.get(i) === 1;
+    let outcome = clicked ? `measured ${state.bobOutcomes.get(i)}` : 'no click';
+    if (protocol === 'b92' && clicked) {
+      outcome += state.bobOutcomes.get(i) === 1 ? ` (conclusive, bit ${1 - bobBasis})` : ' (inconclusive)';
+    }
+    const usesEve = eveOps.some(line => line.includes('eve[0]'));
+    lines.push(
+      '',
+      `// ===== Qubit ${i} =====`,
+      `OPENQASM ${version}.0;`,
+      version === 2 ? 'include "qelib1.inc";' : 'include "stdgates.inc";',
+      version === 2 ? 'qreg q[1];' : 'qubit[1] q;',
+      ...(usesEve ? [version === 2 ? 'creg eve[1];' : 'bit[1] eve;'] : []),
+      version === 2 ? 'creg bob[1];' : 'bit[1] bob;',
+      protocol === 'b92'
+        ? `// Alice: bit ${basis} as ${basis === 1 ? '|+⟩' : '|0⟩'} (${polarization}°)`
+        : `// Alice: bit ${bit} in the ${basis === 1 ? '×' : '+'} basis (${polarization}°)`,
+      ...(step * 45 === polarization
+        ? [...(bit === 1 ? [gate('x')] : []), ...(basis === 1 ? [gate('h')] : [])]
+        : [gate('ry', [(2 * polarization * Math.PI) / 180])]),
+      ...eveOps,
+      ...(channel.misalignment !== 0
+        ? [`// Channel: misalignment of ${channel.misalignment}°`, gate('ry', [(2 * channel.misalignment * Math.PI) / 180])]
+        : []),
+      `// Bob: ${bobBasis === 1 ? '×' : '+'} basis, simulated ${outcome}`,
+      ...(bobBasis === 1 ? [gate('h')] : []),
+      measure('bob')
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,59 @@
+// Simulated Quantum Channel for BB84 Protocol
+// Carries prepared photons from Alice to Bob, separate from the classical channel
+
+import { MessageLink, PreparedQubit, QuantumChannelFrame } from '@/types/bb84';
+
+/**
+ * One-way quantum channel from Alice to Bob.
+ * Photons ride the same data channel as the simulation transport, sent as
+ * QuantumChannelFrames separate from the classical BB84Message stream. The
+ * simulated photons are plain polarization angles, so anyone who can read the
+ * data channel learns Alice's bit and basis from each one; no-cloning only
+ * holds inside the simulator, for the Eve it models.
+ */
+export class QuantumChannel {
+  private connection: MessageLink;
+  private inbox: PreparedQubit[] = [];
+
+  constructor(connection: MessageLink) {
+    this.connection = connection;
+  }
+
+  /**
+   * Alice sends her prepared photons to Bob
+   */
+  transmit(qubits: PreparedQubit[]): void {
+    this.connection.sendMessage({ type: 'quantum_transmission', qubits });
+  }
+
+  /**
+   * Bob's detector receives photons from the channel
+   */
+  receive(frame: QuantumChannelFrame): void {
+    this.inbox = frame.qubits;
+  }
+
+  /**
+   * Number of photons waiting to be measured
+   */
+  get pending(): number {
+    return this.inbox.length;
+  }
+
+  /**
+   * Hand the received photons to the measurement apparatus.
+   * A photon can only be measured once, so the inbox is emptied.
+   */
+  take(): PreparedQubit[] {
+    const qubits = this.inbox;
+    this.inbox = [];
+    return qubits;
+  }
+
+  /**
+   * Drop any photons that were never measured
+   */
+  clear(): void {
+    this.inbox = [];
+  }
+}
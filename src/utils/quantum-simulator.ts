@@ -1,19 +1,56 @@
 // Quantum Simulator for BB84 Protocol
 // Simulates quantum state preparation and measurement
 
-import { Basis, Bit, QuantumBackend } from '@/types/bb84';
+import {
+  Basis,
+  Bit,
+  ChannelParams,
+  CustomCircuit,
+  EveInterception,
+  EveStrategy,
+  PolarizationMeasurement,
+  PreparedQubit,
+  QkdProtocol,
+  QuantumBackend,
+} from '@/types/bb84';
+import { BitSet } from './bitset';
+import { IDEAL_CHANNEL, NoisyChannel } from './channel-model';
+import { DensityMatrix, depolarizingKraus } from './density-matrix';
+import { measurePolarization } from './eve-strategies';
+import { compileCircuit } from './qasm';
+
+const PROGRESS_INTERVAL = 1 << 16; // qubits between progress reports
 
 /**
  * Simulates quantum state preparation and measurement for BB84
- * Supports both Qiskit-style and PennyLane-style backends
+ * Supports Qiskit-style and PennyLane-style backends, and a statevector
+ * backend built on the density matrix engine
+ * Photons cross a NoisyChannel on their way to Bob, whose two detectors
+ * (one per outcome) have a finite efficiency and dark counts.
  */
 export class QuantumSimulator {
   private backend: QuantumBackend;
   private rng: () => number;
+  private channel: NoisyChannel;
+  private detectorEfficiency: number;
+  private darkCountProbability: number;
+  private circuit: ((state: DensityMatrix, rng: () => number) => void) | null;
 
-  constructor(backend: QuantumBackend = 'qiskit', seed?: number) {
+  constructor(
+    backend: QuantumBackend = 'qiskit',
+    seed?: number,
+    channel: ChannelParams = IDEAL_CHANNEL,
+    circuit: CustomCircuit | null = null
+  ) {
+    if (circuit && backend !== 'statevector') {
+      throw new Error('Custom circuits need the statevector backend');
+    }
     this.backend = backend;
     this.rng = seed !== undefined ? this.seededRandom(seed) : Math.random;
+    this.channel = new NoisyChannel(channel, this.rng);
+    this.detectorEfficiency = channel.detectorEfficiency;
+    this.darkCountProbability = channel.darkCountProbability;
+    this.circuit = circuit && compileCircuit(circuit);
   }
 
   /**
@@ -29,65 +66,90 @@ export class QuantumSimulator {
 
   /**
    * Alice prepares a qubit in the given basis with the given bit value
-   * Returns the quantum state (simulated as classical for demonstration)
+   * |0⟩ = 0°, |1⟩ = 90°, |+⟩ = 45°, |−⟩ = 135°
    */
-  prepareQubit(bit: Bit, basis: Basis): { bit: Bit; basis: Basis } {
-    // In real quantum: |0⟩ or |1⟩ for rectilinear, |+⟩ or |−⟩ for diagonal
-    return { bit, basis };
+  prepareQubit(bit: Bit, basis: Basis): PreparedQubit {
+    return { polarization: basis * 45 + bit * 90 };
+  }
+
+  /**
+   * B92: Alice sends bit 0 as |0⟩ (0°) and bit 1 as |+⟩ (45°). The two states
+   * are not orthogonal, so no measurement tells them apart every time.
+   */
+  prepareB92Qubit(bit: Bit): PreparedQubit {
+    return { polarization: bit * 45 };
   }
 
   /**
    * Bob measures a qubit in the given basis
-   * Returns the measurement outcome
+   * Returns the measurement outcome, or null if neither detector clicked
    */
   measureQubit(
-    preparedState: { bit: Bit; basis: Basis },
+    qubit: PreparedQubit,
     measureBasis: Basis,
-    eveIntercepted?: boolean
-  ): { bobOutcome: Bit; eveBasis?: Basis; eveOutcome?: Bit } {
-    if (this.backend === 'qiskit') {
-      return this.measureQiskitStyle(preparedState, measureBasis, eveIntercepted);
+    eve: EveStrategy | null = null
+  ): { bobOutcome: Bit | null; eve?: EveInterception } {
+    if (this.backend === 'statevector') {
+      return this.measureStatevector(qubit, measureBasis, eve);
+    } else if (this.backend === 'qiskit') {
+      return this.measureQiskitStyle(qubit, measureBasis, eve);
     } else {
-      return this.measurePennyLaneStyle(preparedState, measureBasis, eveIntercepted);
+      return this.measurePennyLaneStyle(qubit, measureBasis, eve);
     }
   }
 
+  /**
+   * Projective measurement of a polarized photon (Born rule)
+   */
+  private project(qubit: PreparedQubit, basis: Basis): Bit {
+    return measurePolarization(qubit, basis * 45, this.rng);
+  }
+
+  /**
+   * Bob's two detectors. A photon that reached them clicks with the
+   * detector efficiency, and each detector also fires in the dark on its
+   * own. A double click is assigned a random bit, so dark counts can never
+   * hide an error. No click at all is a lost time slot.
+   */
+  private detect(measurePhoton: (() => Bit) | null): Bit | null {
+    const signal = measurePhoton && this.rng() < this.detectorEfficiency ? measurePhoton() : null;
+    let click0 = signal === 0;
+    let click1 = signal === 1;
+    if (this.darkCountProbability > 0) {
+      click0 = click0 || this.rng() < this.darkCountProbability;
+      click1 = click1 || this.rng() < this.darkCountProbability;
+    }
+    if (click0 && click1) return this.rng() < 0.5 ? 0 : 1;
+    if (click0) return 0;
+    if (click1) return 1;
+    return null;
+  }
+
   /**
    * Qiskit-style measurement simulation
    */
   private measureQiskitStyle(
-    preparedState: { bit: Bit; basis: Basis },
+    qubit: PreparedQubit,
     measureBasis: Basis,
-    eveIntercepted?: boolean
-  ): { bobOutcome: Bit; eveBasis?: Basis; eveOutcome?: Bit } {
-    const { bit, basis } = preparedState;
-
-    // If Eve intercepted, she measures in random basis and resends
-    let actualBit = bit;
-    let actualBasis = basis;
-
-    let eveBasis: Basis | undefined = undefined;
-    let eveOutcome: Bit | undefined = undefined;
-
-    if (eveIntercepted) {
-      eveBasis = this.rng() < 0.5 ? 0 : 1;
-      // Eve measures
-      if (eveBasis === basis) {
-        // Same basis: Eve gets correct bit
-        actualBit = bit;
-      } else {
-        // Different basis: Eve gets random bit (50% chance)
-        actualBit = this.rng() < 0.5 ? 0 : 1;
+    eve: EveStrategy | null = null
+  ): { bobOutcome: Bit | null; eve?: EveInterception } {
+    // Eve sits at Alice's output, so what she sends on still crosses the fiber
+    // unless she uses a lossless link of her own
+    if (eve) {
+      const interception = eve.intercept(qubit, this.rng, (photon, axis) => measurePolarization(photon, axis, this.rng));
+      let forwarded = interception.forwarded;
+      if (forwarded && interception.depolarizing && this.rng() < interception.depolarizing) {
+        forwarded = { polarization: this.rng() < 0.5 ? 0 : 90 };
       }
-      eveOutcome = actualBit;
-      // Eve resends in her measured basis
-      actualBasis = eveBasis;
+      const arriving = forwarded && this.channel.propagate(forwarded, interception.bypassFiber);
+      return { bobOutcome: this.detect(arriving && (() => this.project(arriving, measureBasis))), eve: interception };
     }
 
     // Bob's measurement
-    const bobOutcome = measureBasis === actualBasis ? actualBit : this.rng() < 0.5 ? 0 : 1;
+    const arriving = this.channel.propagate(qubit);
+    const bobOutcome = this.detect(arriving && (() => this.project(arriving, measureBasis)));
 
-    return { bobOutcome, eveBasis, eveOutcome };
+    return { bobOutcome };
   }
 
   /**
@@ -95,54 +157,114 @@ export class QuantumSimulator {
    * (Same logic, different conceptual framework)
    */
   private measurePennyLaneStyle(
-    preparedState: { bit: Bit; basis: Basis },
+    qubit: PreparedQubit,
     measureBasis: Basis,
-    eveIntercepted?: boolean
-  ): { bobOutcome: Bit; eveBasis?: Basis; eveOutcome?: Bit } {
+    eve: EveStrategy | null = null
+  ): { bobOutcome: Bit | null; eve?: EveInterception } {
     // PennyLane uses QNodes, but simulation is identical
-    return this.measureQiskitStyle(preparedState, measureBasis, eveIntercepted);
+    return this.measureQiskitStyle(qubit, measureBasis, eve);
+  }
+
+  /**
+   * Statevector backend: every photon is a density matrix. Eve's
+   * measurements, the cloner's mixing, the fiber noise and Bob's measurement
+   * are quantum operations on it rather than precomputed probabilities.
+   * An imported circuit acts right after Eve, before the fiber.
+   */
+  private measureStatevector(
+    qubit: PreparedQubit,
+    measureBasis: Basis,
+    eve: EveStrategy | null = null
+  ): { bobOutcome: Bit | null; eve?: EveInterception } {
+    let state: DensityMatrix | null = DensityMatrix.fromPolarization(qubit.polarization);
+    let interception: EveInterception | undefined;
+
+    if (eve) {
+      const measure: PolarizationMeasurement = (photon, axis) =>
+        DensityMatrix.fromPolarization(photon.polarization).measure(axis, this.rng);
+      interception = eve.intercept(qubit, this.rng, measure);
+      state = interception.forwarded && DensityMatrix.fromPolarization(interception.forwarded.polarization);
+      if (state && interception.depolarizing) {
+        state.applyKraus(depolarizingKraus(interception.depolarizing));
+      }
+    }
+
+    if (state && this.circuit) {
+      this.circuit(state, this.rng);
+    }
+
+    const arriving = state && this.channel.transmit(state, interception?.bypassFiber);
+    const bobOutcome = this.detect(arriving && (() => arriving.measure(measureBasis * 45, this.rng)));
+
+    return interception ? { bobOutcome, eve: interception } : { bobOutcome };
+  }
+
+  /**
+   * Alice encodes her bits into photons for the quantum channel
+   */
+  prepareTransmission(aliceBits: BitSet, aliceBases: BitSet, protocol: QkdProtocol = 'bb84'): PreparedQubit[] {
+    return Array.from({ length: aliceBits.length }, (_, i) =>
+      protocol === 'b92'
+        ? this.prepareB92Qubit(aliceBits.get(i))
+        : this.prepareQubit(aliceBits.get(i), aliceBases.get(i))
+    );
   }
 
   /**
-   * Simulate full BB84 transmission
+   * Bob measures the photons he received from the quantum channel
+   * Time slots without a click keep a placeholder outcome of 0 and are
+   * marked as not detected, so sifting discards them. B92 uses the same
+   * random-basis measurement; only the sifting reads the outcomes differently.
    */
-  simulateTransmission(
-    aliceBits: Bit[],
-    aliceBases: Basis[],
-    bobBases: Basis[],
-    eveEnabled: boolean = false
-  ): { bobOutcomes: Bit[]; eveBases?: Basis[]; eveOutcomes?: Bit[] } {
-    const bobOutcomes: Bit[] = [];
-    const eveBases: Basis[] = [];
-    const eveOutcomes: Bit[] = [];
-
-    for (let i = 0; i < aliceBits.length; i++) {
-      const preparedState = this.prepareQubit(aliceBits[i], aliceBases[i]);
-      const result = this.measureQubit(preparedState, bobBases[i], eveEnabled);
-      bobOutcomes.push(result.bobOutcome);
-      if (eveEnabled && result.eveBasis !== undefined && result.eveOutcome !== undefined) {
-        eveBases.push(result.eveBasis);
-        eveOutcomes.push(result.eveOutcome);
+  measureTransmission(
+    qubits: PreparedQubit[],
+    bobBases: BitSet,
+    eve: EveStrategy | null = null,
+    onProgress?: (fraction: number) => void
+  ): { bobOutcomes: BitSet; detected: BitSet; eveBases?: BitSet; eveOutcomes?: BitSet; eveKnown?: BitSet } {
+    const count = qubits.length;
+    const bobOutcomes = new BitSet(count);
+    const detected = new BitSet(count);
+    const eveBases = new BitSet(count);
+    const eveOutcomes = new BitSet(count);
+    const eveKnown = new BitSet(count);
+
+    for (let i = 0; i < count; i++) {
+      if (onProgress && i > 0 && i % PROGRESS_INTERVAL === 0) {
+        onProgress(i / count);
+      }
+      const result = this.measureQubit(qubits[i], bobBases.get(i), eve);
+      bobOutcomes.set(i, result.bobOutcome ?? 0);
+      detected.set(i, result.bobOutcome !== null ? 1 : 0);
+      if (eve) {
+        eveBases.set(i, result.eve?.basis ?? 0);
+        eveOutcomes.set(i, result.eve?.guess ?? 0);
+        eveKnown.set(i, result.eve?.guess !== undefined ? 1 : 0);
       }
     }
 
     return {
       bobOutcomes,
-      ...(eveEnabled && { eveBases, eveOutcomes }),
+      detected,
+      ...(eve && { eveBases, eveOutcomes, eveKnown }),
     };
   }
 
   /**
    * Generate random bits
    */
-  generateRandomBits(count: number): Bit[] {
-    return Array.from({ length: count }, () => (this.rng() < 0.5 ? 0 : 1));
+  generateRandomBits(count: number): BitSet {
+    const bits = new BitSet(count);
+    for (let i = 0; i < count; i++) {
+      if (this.rng() >= 0.5) bits.set(i, 1);
+    }
+    return bits;
   }
 
   /**
-   * Generate random bases
+   * Generate random bases (bit i set: diagonal)
    */
-  generateRandomBases(count: number): Basis[] {
-    return Array.from({ length: count }, () => (this.rng() < 0.5 ? 0 : 1));
+  generateRandomBases(count: number): BitSet {
+    return this.generateRandomBits(count);
   }
 }
@@ -0,0 +1,210 @@
+// Resumable Session Layer
+// Sequence numbers, acknowledgements and retransmission across data channel drops
+
+import { LinkStatus, ResumableFrame, Transport } from '@/types/bb84';
+
+const RESUME_TIMEOUT_MS = 30_000;
+const ACK_DELAY_MS = 200;
+
+function randomSessionId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Keeps one logical session alive across reconnects of the underlying channel.
+ * Every outgoing frame gets a sequence number and stays buffered until the
+ * peer acknowledges it. Each time a channel (re)opens both sides exchange a
+ * hello carrying their session ID and the last sequence number they received;
+ * the unacknowledged tail is then retransmitted in order and duplicates are
+ * dropped on receipt, so the layers above see every frame exactly once and the
+ * protocol carries on from the last acknowledged message.
+ *
+ * The headers are not authenticated: integrity is left to the
+ * AuthenticatedTransport above, whose own sequence check rejects any gap an
+ * attacker could cause by forging acknowledgements.
+ */
+export class ResumableTransport implements Transport {
+  readonly sessionId = randomSessionId();
+  private connection: Transport;
+  private peerSessionId: string | null = null;
+  private attached = false;
+  private resuming = false;
+  private failed = false;
+  private nextSeq = 0;
+  private lastReceived = -1;
+  private unacked: { seq: number; payload: unknown }[] = [];
+  private status: LinkStatus = { state: 'connected' };
+  private callback: ((data: unknown) => void) | null = null;
+  private statusCallback: ((status: LinkStatus) => void) | null = null;
+  private ackTimer: ReturnType<typeof setTimeout> | null = null;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(connection: Transport) {
+    this.connection = connection;
+    connection.onMessage(data => this.receive(data as ResumableFrame));
+  }
+
+  /**
+   * The underlying channel is open (for the first time or again)
+   */
+  attach(): void {
+    if (this.failed) return;
+    this.attached = true;
+    this.resuming = true;
+    this.sendHello(false);
+  }
+
+  /**
+   * The underlying channel dropped; frames are buffered until it comes back
+   * or the resume timeout expires
+   */
+  detach(): void {
+    if (this.failed || !this.attached) return;
+    this.attached = false;
+    this.resuming = false;
+    this.setStatus({ state: 'reconnecting' });
+    this.clearResumeTimer();
+    this.resumeTimer = setTimeout(
+      () => this.fail(`Connection lost and not restored within ${RESUME_TIMEOUT_MS / 1000} s`),
+      RESUME_TIMEOUT_MS
+    );
+  }
+
+  sendMessage(payload: unknown): void {
+    if (this.failed) {
+      console.warn('Session has failed, cannot send message');
+      return;
+    }
+    const seq = this.nextSeq++;
+    this.unacked.push({ seq, payload });
+    if (this.attached && !this.resuming) {
+      this.transmit(seq, payload);
+    }
+  }
+
+  onMessage(callback: (data: unknown) => void): void {
+    this.callback = callback;
+  }
+
+  onStatusChange(callback: (status: LinkStatus) => void): void {
+    this.statusCallback = callback;
+  }
+
+  getStatus(): LinkStatus {
+    return this.status;
+  }
+
+  close(): void {
+    this.failed = true;
+    this.clearResumeTimer();
+    if (this.ackTimer) clearTimeout(this.ackTimer);
+    this.connection.close();
+  }
+
+  private receive(frame: ResumableFrame): void {
+    if (this.failed) return;
+    switch (frame?.kind) {
+      case 'hello':
+        this.handleHello(frame);
+        break;
+
+      case 'data':
+        this.acknowledge(frame.ack);
+        // Retransmissions overlap what already arrived; anything else is a gap
+        if (frame.seq !== this.lastReceived + 1) {
+          if (frame.seq > this.lastReceived + 1) {
+            console.warn(`Dropping out-of-order frame #${frame.seq} (expected #${this.lastReceived + 1})`);
+          }
+          return;
+        }
+        this.lastReceived = frame.seq;
+        this.scheduleAck();
+        this.callback?.(frame.payload);
+        break;
+
+      case 'ack':
+        this.acknowledge(frame.received);
+        break;
+
+      default:
+        console.warn('Dropping frame without a session header');
+    }
+  }
+
+  private handleHello(frame: Extract<ResumableFrame, { kind: 'hello' }>): void {
+    if (this.peerSessionId === null) {
+      this.peerSessionId = frame.session;
+    } else if (frame.session !== this.peerSessionId) {
+      this.fail('The peer restarted, so this session cannot be resumed');
+      return;
+    }
+
+    // A hello we did not ask for: the peer reopened while we still thought the
+    // channel was up, so answer it to complete the exchange
+    if (!this.resuming && !frame.reply) {
+      this.attached = true;
+      this.sendHello(true);
+    }
+    this.resuming = false;
+    this.clearResumeTimer();
+
+    this.acknowledge(frame.received);
+    this.unacked.forEach(({ seq, payload }) => this.transmit(seq, payload));
+    this.setStatus({ state: 'connected' });
+  }
+
+  private sendHello(reply: boolean): void {
+    const hello: ResumableFrame = { kind: 'hello', session: this.sessionId, received: this.lastReceived, reply };
+    this.connection.sendMessage(hello);
+  }
+
+  private transmit(seq: number, payload: unknown): void {
+    const frame: ResumableFrame = { kind: 'data', seq, ack: this.lastReceived, payload };
+    this.connection.sendMessage(frame);
+    // The data frame carries the acknowledgement
+    if (this.ackTimer) {
+      clearTimeout(this.ackTimer);
+      this.ackTimer = null;
+    }
+  }
+
+  private acknowledge(received: number): void {
+    if (this.unacked.length > 0 && this.unacked[0].seq <= received) {
+      this.unacked = this.unacked.filter(frame => frame.seq > received);
+    }
+  }
+
+  private scheduleAck(): void {
+    if (this.ackTimer) return;
+    this.ackTimer = setTimeout(() => {
+      this.ackTimer = null;
+      if (this.attached && !this.resuming) {
+        const ack: ResumableFrame = { kind: 'ack', received: this.lastReceived };
+        this.connection.sendMessage(ack);
+      }
+    }, ACK_DELAY_MS);
+  }
+
+  private clearResumeTimer(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+
+  private fail(reason: string): void {
+    this.failed = true;
+    this.attached = false;
+    this.clearResumeTimer();
+    this.unacked = [];
+    this.setStatus({ state: 'failed', reason });
+  }
+
+  private setStatus(status: LinkStatus): void {
+    if (status.state === this.status.state) return;
+    this.status = status;
+    this.statusCallback?.(status);
+  }
+}
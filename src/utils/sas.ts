@@ -0,0 +1,75 @@
+// Short Authentication String
+// Emoji sequence both peers compare out of band to detect a swapped SDP
+
+const SAS_LENGTH = 7;
+const BITS_PER_SYMBOL = 6;
+
+/** 64 symbols, one per 6-bit value; easy to name aloud over a call */
+export const SAS_EMOJI: ReadonlyArray<{ emoji: string; name: string }> = [
+  { emoji: '🐶', name: 'Dog' }, { emoji: '🐱', name: 'Cat' }, { emoji: '🦁', name: 'Lion' },
+  { emoji: '🐎', name: 'Horse' }, { emoji: '🦄', name: 'Unicorn' }, { emoji: '🐷', name: 'Pig' },
+  { emoji: '🐘', name: 'Elephant' }, { emoji: '🐰', name: 'Rabbit' }, { emoji: '🐼', name: 'Panda' },
+  { emoji: '🐓', name: 'Rooster' }, { emoji: '🐧', name: 'Penguin' }, { emoji: '🐢', name: 'Turtle' },
+  { emoji: '🐟', name: 'Fish' }, { emoji: '🐙', name: 'Octopus' }, { emoji: '🦋', name: 'Butterfly' },
+  { emoji: '🌷', name: 'Flower' }, { emoji: '🌳', name: 'Tree' }, { emoji: '🌵', name: 'Cactus' },
+  { emoji: '🍄', name: 'Mushroom' }, { emoji: '🌏', name: 'Globe' }, { emoji: '🌙', name: 'Moon' },
+  { emoji: '☁️', name: 'Cloud' }, { emoji: '🔥', name: 'Fire' }, { emoji: '🍌', name: 'Banana' },
+  { emoji: '🍎', name: 'Apple' }, { emoji: '🍓', name: 'Strawberry' }, { emoji: '🌽', name: 'Corn' },
+  { emoji: '🍕', name: 'Pizza' }, { emoji: '🎂', name: 'Cake' }, { emoji: '❤️', name: 'Heart' },
+  { emoji: '😀', name: 'Smiley' }, { emoji: '🤖', name: 'Robot' }, { emoji: '🎩', name: 'Hat' },
+  { emoji: '👓', name: 'Glasses' }, { emoji: '🔧', name: 'Spanner' }, { emoji: '🎅', name: 'Santa' },
+  { emoji: '👍', name: 'Thumbs Up' }, { emoji: '☂️', name: 'Umbrella' }, { emoji: '⌛', name: 'Hourglass' },
+  { emoji: '⏰', name: 'Clock' }, { emoji: '🎁', name: 'Gift' }, { emoji: '💡', name: 'Light Bulb' },
+  { emoji: '📕', name: 'Book' }, { emoji: '✏️', name: 'Pencil' }, { emoji: '📎', name: 'Paperclip' },
+  { emoji: '✂️', name: 'Scissors' }, { emoji: '🔒', name: 'Lock' }, { emoji: '🔑', name: 'Key' },
+  { emoji: '🔨', name: 'Hammer' }, { emoji: '☎️', name: 'Telephone' }, { emoji: '🏁', name: 'Flag' },
+  { emoji: '🚂', name: 'Train' }, { emoji: '🚲', name: 'Bicycle' }, { emoji: '✈️', name: 'Aeroplane' },
+  { emoji: '🚀', name: 'Rocket' }, { emoji: '🏆', name: 'Trophy' }, { emoji: '⚽', name: 'Ball' },
+  { emoji: '🎸', name: 'Guitar' }, { emoji: '🎺', name: 'Trumpet' }, { emoji: '🔔', name: 'Bell' },
+  { emoji: '⚓', name: 'Anchor' }, { emoji: '🎧', name: 'Headphones' }, { emoji: '📁', name: 'Folder' },
+  { emoji: '📌', name: 'Pin' },
+];
+
+/**
+ * All DTLS certificate fingerprints in an SDP, normalized and sorted.
+ * Session- and media-level lines are both collected; duplicates are removed.
+ */
+export function extractFingerprints(sdp: string): string[] {
+  const fingerprints = new Set<string>();
+  for (const line of sdp.split(/\r?\n/)) {
+    const match = /^a=fingerprint:(\S+)\s+([0-9A-Fa-f:]+)\s*$/.exec(line);
+    if (match) {
+      fingerprints.add(`${match[1].toLowerCase()} ${match[2].toUpperCase()}`);
+    }
+  }
+  return [...fingerprints].sort();
+}
+
+/**
+ * Derive the SAS from the room ID and the offer/answer fingerprints.
+ * A man-in-the-middle who swaps either SDP has to present its own DTLS
+ * certificate, which changes the fingerprints one side sees and therefore the
+ * emoji that side shows; matching them would require a 42-bit hash collision
+ * found in real time.
+ */
+export async function deriveSAS(roomId: string, offerSdp: string, answerSdp: string): Promise<{ emoji: string; name: string }[]> {
+  const offer = extractFingerprints(offerSdp);
+  const answer = extractFingerprints(answerSdp);
+  if (offer.length === 0 || answer.length === 0) {
+    throw new Error('No DTLS fingerprint found in the session description');
+  }
+
+  const input = ['key-cipher-chat/sas/v1', roomId, offer.join(','), answer.join(',')].join('|');
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+
+  const symbols: { emoji: string; name: string }[] = [];
+  for (let i = 0; i < SAS_LENGTH; i++) {
+    let value = 0;
+    for (let b = 0; b < BITS_PER_SYMBOL; b++) {
+      const bit = i * BITS_PER_SYMBOL + b;
+      value = (value << 1) | ((digest[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    symbols.push(SAS_EMOJI[value]);
+  }
+  return symbols;
+}
@@ -0,0 +1,125 @@
+// Compressed Signaling Links
+// Packs an SDP offer/answer and the room ID into a short URL fragment or QR code
+
+const FORMAT_VERSION = 1;
+
+// Lines a data-channel-only session does not need
+const REDUNDANT_LINES = [
+  /^a=extmap-allow-mixed$/,
+  /^a=msid-semantic:/,
+  /^a=end-of-candidates$/,
+  // TCP host candidates are almost never selected for a peer-to-peer data channel
+  /^a=candidate:\S+ \d+ tcp /i,
+];
+
+export interface SignalPayload {
+  type: 'offer' | 'answer';
+  /** null when pasted as raw JSON, which carries no room ID */
+  roomId: string | null;
+  /** JSON session description, as accepted by WebRTCConnection.handleOffer/handleAnswer */
+  description: string;
+}
+
+interface PackedSignal {
+  v: number;
+  t: 'o' | 'a';
+  r: string;
+  s: string;
+}
+
+export function stripSdp(sdp: string): string {
+  return sdp
+    .split(/\r?\n/)
+    .filter(line => line.length > 0 && !REDUNDANT_LINES.some(pattern => pattern.test(line)))
+    .join('\n');
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Session description (JSON from createOffer/handleOffer) → base64url token
+ */
+export async function encodeSignal(description: string, roomId: string): Promise<string> {
+  const parsed = JSON.parse(description) as RTCSessionDescriptionInit;
+  if (parsed.type !== 'offer' && parsed.type !== 'answer') {
+    throw new Error('Only offers and answers can be shared');
+  }
+  const packed: PackedSignal = {
+    v: FORMAT_VERSION,
+    t: parsed.type === 'offer' ? 'o' : 'a',
+    r: roomId,
+    s: stripSdp(parsed.sdp ?? ''),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(packed));
+  return toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+}
+
+export async function decodeSignal(token: string): Promise<SignalPayload> {
+  let packed: PackedSignal;
+  try {
+    const json = await transform(fromBase64Url(token), new DecompressionStream('deflate-raw'));
+    packed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('Not a valid connection code');
+  }
+  if (packed.v !== FORMAT_VERSION || (packed.t !== 'o' && packed.t !== 'a') || typeof packed.s !== 'string') {
+    throw new Error('Unsupported connection code');
+  }
+
+  const type = packed.t === 'o' ? 'offer' : 'answer';
+  // Browsers require CRLF line endings and a trailing newline
+  const sdp = packed.s.split('\n').join('\r\n') + '\r\n';
+  return { type, roomId: packed.r, description: JSON.stringify({ type, sdp }) };
+}
+
+/**
+ * Shareable link; the token sits in the fragment so it never reaches a server
+ */
+export function signalLink(type: 'offer' | 'answer', token: string): string {
+  return `${window.location.origin}/room#${type}=${token}`;
+}
+
+/**
+ * Read a connection code from a link, a bare token or the legacy raw JSON
+ */
+export async function parseSignalInput(input: string): Promise<SignalPayload> {
+  const text = input.trim();
+  if (text.startsWith('{')) {
+    const parsed = JSON.parse(text) as RTCSessionDescriptionInit;
+    if (parsed.type !== 'offer' && parsed.type !== 'answer') {
+      throw new Error('Not an offer or answer');
+    }
+    return { type: parsed.type, roomId: null, description: text };
+  }
+  const fragment = /#(?:offer|answer)=([A-Za-z0-9_-]+)/.exec(text);
+  return decodeSignal(fragment ? fragment[1] : text);
+}
+
+/**
+ * Offer token from the current page's URL fragment, if the page was opened from a link
+ */
+export function offerFromLocation(): string | null {
+  const match = /^#offer=([A-Za-z0-9_-]+)$/.exec(window.location.hash);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,184 @@
+// SPAKE2 Password-Authenticated Key Exchange (RFC 9382, P-256 / SHA-256)
+// Turns the short room passcode into a strong key shared only with a peer who knows it
+
+import {
+  BASE_POINT,
+  CurvePoint,
+  add,
+  decodePoint,
+  encodePoint,
+  multiply,
+  negate,
+  randomScalar,
+  reduceScalar,
+  scalarToBytes,
+} from './p256';
+
+// Fixed generators from RFC 9382 §6 with unknown discrete logs relative to G
+const M = decodePoint(hexToBytes('02886e2f97ace46e55ba9dd7242579f2993b64e16ef3dcab95afd497333d8fa12f'));
+const N = decodePoint(hexToBytes('03d8bbd6c639c62937b04d997f38c3770719c629d7014d49a24b4f98baa1292b49'));
+
+const PASSWORD_SALT_PREFIX = 'key-cipher-chat/spake2/v1|';
+const PASSWORD_ITERATIONS = 100_000;
+
+/** 'A' is the room creator, 'B' the peer who joined */
+export type Spake2Party = 'A' | 'B';
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    throw new Error('Invalid hex string');
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(2 * i, 2 * i + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Length-prefixed concatenation used for the transcript (8-byte little-endian lengths)
+ */
+function transcript(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + 8 + part.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  let offset = 0;
+  for (const part of parts) {
+    view.setBigUint64(offset, BigInt(part.length), true);
+    out.set(part, offset + 8);
+    offset += 8 + part.length;
+  }
+  return out;
+}
+
+/**
+ * Password scalar w. PBKDF2 slows down offline guessing by anyone who records
+ * a transcript; the room ID salts it so one table does not cover every room.
+ */
+async function passwordScalar(passcode: string, roomId: string): Promise<bigint> {
+  const encoder = new TextEncoder();
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passcode), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: encoder.encode(PASSWORD_SALT_PREFIX + roomId),
+      iterations: PASSWORD_ITERATIONS,
+    },
+    material,
+    384
+  );
+  return reduceScalar(new Uint8Array(bits));
+}
+
+function hmacKey(raw: Uint8Array): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * One side of a SPAKE2 exchange.
+ * Both sides send their share at once, derive the transcript key on receipt
+ * and then exchange confirmation MACs. A wrong passcode on either side makes
+ * the confirmations disagree, and the transcript gives an eavesdropper or
+ * man-in-the-middle only one online guess per connection attempt.
+ */
+export class Spake2 {
+  private party: Spake2Party;
+  private roomId: string;
+  private w: bigint;
+  private x: bigint;
+  private shareBytes: Uint8Array;
+  private peerConfirmationKey: CryptoKey | null = null;
+  private transcriptBytes: Uint8Array | null = null;
+
+  private constructor(party: Spake2Party, roomId: string, w: bigint) {
+    this.party = party;
+    this.roomId = roomId;
+    this.w = w;
+    this.x = randomScalar();
+    const blind = party === 'A' ? M : N;
+    this.shareBytes = encodePoint(add(multiply(BASE_POINT, this.x), multiply(blind, w)));
+  }
+
+  static async start(party: Spake2Party, roomId: string, passcode: string): Promise<Spake2> {
+    return new Spake2(party, roomId, await passwordScalar(passcode, roomId));
+  }
+
+  /**
+   * Our public share (pA or pB), hex encoded
+   */
+  get share(): string {
+    return bytesToHex(this.shareBytes);
+  }
+
+  /**
+   * Process the peer's share.
+   * Returns our confirmation MAC to send and the session key (HKDF input key)
+   * that must not be used until the peer's confirmation has been verified.
+   */
+  async finish(peerShare: string): Promise<{ confirmation: string; sessionKey: CryptoKey }> {
+    const peerBytes = hexToBytes(peerShare);
+    const peerPoint = decodePoint(peerBytes);
+    const peerBlind = this.party === 'A' ? N : M;
+
+    // K = x · (peerShare − w · peerBlind); the cofactor of P-256 is 1
+    const shared: CurvePoint = multiply(add(peerPoint, negate(multiply(peerBlind, this.w))), this.x);
+    if (!shared) {
+      throw new Error('SPAKE2 produced the identity element');
+    }
+
+    const encoder = new TextEncoder();
+    const [pA, pB] = this.party === 'A' ? [this.shareBytes, peerBytes] : [peerBytes, this.shareBytes];
+    const tt = transcript([
+      encoder.encode(`${this.roomId}/creator`),
+      encoder.encode(`${this.roomId}/joiner`),
+      pA,
+      pB,
+      encodePoint(shared),
+      scalarToBytes(this.w),
+    ]);
+    this.transcriptBytes = tt;
+
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', tt));
+    const ke = digest.slice(0, 16);
+    const ka = digest.slice(16);
+
+    const kaKey = await crypto.subtle.importKey('raw', ka, 'HKDF', false, ['deriveBits']);
+    const confirmationKeys = new Uint8Array(
+      await crypto.subtle.deriveBits(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encoder.encode('ConfirmationKeys') },
+        kaKey,
+        512
+      )
+    );
+    const kcA = confirmationKeys.slice(0, 32);
+    const kcB = confirmationKeys.slice(32);
+    const [ownKey, peerKey] = this.party === 'A' ? [kcA, kcB] : [kcB, kcA];
+
+    this.peerConfirmationKey = await hmacKey(peerKey);
+    const confirmation = await crypto.subtle.sign('HMAC', await hmacKey(ownKey), tt);
+    const sessionKey = await crypto.subtle.importKey('raw', ke, 'HKDF', false, ['deriveKey']);
+
+    return { confirmation: bytesToHex(new Uint8Array(confirmation)), sessionKey };
+  }
+
+  /**
+   * Check the peer's confirmation MAC over the transcript (constant-time compare)
+   */
+  async verify(peerConfirmation: string): Promise<boolean> {
+    if (!this.peerConfirmationKey || !this.transcriptBytes) {
+      throw new Error('Peer share has not been processed yet');
+    }
+    let mac: Uint8Array;
+    try {
+      mac = hexToBytes(peerConfirmation);
+    } catch {
+      return false;
+    }
+    return crypto.subtle.verify('HMAC', this.peerConfirmationKey, mac, this.transcriptBytes);
+  }
+}
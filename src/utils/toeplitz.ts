@@ -0,0 +1,177 @@
+// Toeplitz Hashing for Privacy Amplification
+// Two-universal hash family keyed by a public random seed of n + m - 1 bits
+
+import { Bit } from '@/types/bb84';
+import { BitSet } from './bitset';
+
+/**
+ * Alice draws the public Toeplitz seed with the platform CSPRNG
+ */
+export function generateToeplitzSeed(length: number): BitSet {
+  const seed = new BitSet(length);
+  // getRandomValues fills at most 64 KiB (16384 words) per call
+  for (let offset = 0; offset < seed.words.length; offset += 16384) {
+    crypto.getRandomValues(seed.words.subarray(offset, offset + 16384));
+  }
+  // Clear the padding past the last bit so equal seeds have equal words
+  if (length % 32 !== 0) {
+    seed.words[seed.words.length - 1] &= (1 << (length % 32)) - 1;
+  }
+  return seed;
+}
+
+function parity32(word: number): Bit {
+  word ^= word >>> 16;
+  word ^= word >>> 8;
+  word ^= word >>> 4;
+  return ((0x6996 >>> (word & 0xf)) & 1) as Bit;
+}
+
+/**
+ * Pack bits LSB-first into 32-bit words, starting at the given offset
+ */
+function packBits(bits: BitSet, offset: number, length: number): Uint32Array {
+  const words = new Uint32Array(Math.ceil(length / 32) + 1);
+  for (let i = 0; i < length; i++) {
+    if (bits.get(offset + i) === 1) {
+      words[i >>> 5] |= 1 << (i & 31);
+    }
+  }
+  return words;
+}
+
+// Above this many matrix entries the FFT path is cheaper than word-level ANDs
+const FFT_THRESHOLD = 1 << 26;
+
+/**
+ * Multiply the key by the m × n Toeplitz matrix T[i][j] = seed[i - j + n - 1].
+ * Small inputs use packed words; large ones (10^5 bits and up) use an FFT.
+ */
+export function toeplitzHash(key: BitSet, seed: BitSet, onProgress?: (fraction: number) => void): BitSet {
+  const n = key.length;
+  const m = seed.length - n + 1;
+  if (n === 0 || m <= 0) {
+    throw new Error('Toeplitz seed must be at least as long as the key');
+  }
+  return m * n > FFT_THRESHOLD ? toeplitzHashFft(key, seed, onProgress) : toeplitzHashWords(key, seed);
+}
+
+/**
+ * Row i of T is a window of the seed, so with the key reversed each output bit
+ * is the parity of (seed[i..i+n) AND reversedKey). The seed is pre-packed at
+ * all 32 bit offsets, which makes every row a straight run of word-level ANDs:
+ * O(m · n / 32) instead of O(m · n).
+ */
+function toeplitzHashWords(key: BitSet, seed: BitSet): BitSet {
+  const n = key.length;
+  const m = seed.length - n + 1;
+
+  const keyWords = new Uint32Array(Math.ceil(n / 32));
+  for (let j = 0; j < n; j++) {
+    if (key.get(n - 1 - j) === 1) {
+      keyWords[j >>> 5] |= 1 << (j & 31);
+    }
+  }
+  const keyWordCount = Math.ceil(n / 32);
+
+  const shifted: Uint32Array[] = [];
+  for (let s = 0; s < 32; s++) {
+    shifted.push(packBits(seed, s, Math.max(0, seed.length - s)));
+  }
+
+  const output = new BitSet(m);
+  for (let i = 0; i < m; i++) {
+    const window = shifted[i & 31];
+    const base = i >>> 5;
+    let acc = 0;
+    for (let w = 0; w < keyWordCount; w++) {
+      acc ^= window[base + w] & keyWords[w];
+    }
+    output.set(i, parity32(acc));
+  }
+  return output;
+}
+
+/**
+ * Output bit i is Σ_j seed[i + n - 1 - j] · key[j] mod 2, which is entry
+ * i + n - 1 of the integer convolution seed * key. A cyclic convolution of
+ * size ≥ n + m - 1 gives those entries without wrap-around, in
+ * O((n + m) log(n + m)). The sums are integers ≤ n, far inside the range a
+ * double-precision FFT reproduces exactly after rounding.
+ */
+function toeplitzHashFft(key: BitSet, seed: BitSet, onProgress?: (fraction: number) => void): BitSet {
+  const n = key.length;
+  const m = seed.length - n + 1;
+  let size = 1;
+  while (size < seed.length) size <<= 1;
+
+  const seedRe = new Float64Array(size);
+  const seedIm = new Float64Array(size);
+  const keyRe = new Float64Array(size);
+  const keyIm = new Float64Array(size);
+  for (let i = 0; i < seed.length; i++) {
+    seedRe[i] = seed.get(i);
+  }
+  for (let i = 0; i < key.length; i++) {
+    keyRe[i] = key.get(i);
+  }
+
+  fft(seedRe, seedIm, false);
+  onProgress?.(1 / 3);
+  fft(keyRe, keyIm, false);
+  onProgress?.(2 / 3);
+  for (let k = 0; k < size; k++) {
+    const re = seedRe[k] * keyRe[k] - seedIm[k] * keyIm[k];
+    const im = seedRe[k] * keyIm[k] + seedIm[k] * keyRe[k];
+    seedRe[k] = re;
+    seedIm[k] = im;
+  }
+  fft(seedRe, seedIm, true);
+  onProgress?.(1);
+
+  const output = new BitSet(m);
+  for (let i = 0; i < m; i++) {
+    output.set(i, (Math.round(seedRe[i + n - 1] / size) & 1) as Bit);
+  }
+  return output;
+}
+
+/**
+ * In-place iterative radix-2 FFT; the inverse is left unscaled
+ */
+function fft(re: Float64Array, im: Float64Array, inverse: boolean): void {
+  const size = re.length;
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / length;
+    const half = length >> 1;
+    // Twiddles are computed directly per length to avoid error build-up
+    const cos = new Float64Array(half);
+    const sin = new Float64Array(half);
+    for (let k = 0; k < half; k++) {
+      cos[k] = Math.cos(angle * k);
+      sin[k] = Math.sin(angle * k);
+    }
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * cos[k] - im[b] * sin[k];
+        const tIm = re[b] * sin[k] + im[b] * cos[k];
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+}
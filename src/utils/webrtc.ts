@@ -1,21 +1,156 @@
-export class WebRTCConnection {
+import {
+  CandidateInfo,
+  ConnectionDiagnostics,
+  IceSettings,
+  SignalData,
+  SignalingServerMessage,
+  Transport,
+  WireFormat,
+} from '@/types/bb84';
+import { DEFAULT_ICE_SETTINGS, toRTCConfiguration } from './ice-config';
+import { FrameAssembler, encodeFrame, splitFrame } from './wire-codec';
+
+const SIGNALING_TIMEOUT_MS = 5000;
+// Messages are cut to the SCTP limit; 16 KiB when the browser does not report one
+const DEFAULT_MESSAGE_SIZE = 16 * 1024;
+const MAX_MESSAGE_SIZE = 64 * 1024;
+// Sending pauses above the high water mark and resumes once the buffer drains below the low one
+const BUFFER_HIGH_WATER = 1024 * 1024;
+const BUFFER_LOW_WATER = 256 * 1024;
+
+// The server is untrusted: a frame that is not a JSON object is dropped, not thrown
+function parseServerMessage(data: unknown): SignalingServerMessage | null {
+  try {
+    const message = JSON.parse(String(data));
+    return typeof message === 'object' && message !== null ? (message as SignalingServerMessage) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * WebSocket client for the local signaling server (server/signaling.js).
+ * Joins the room on connect and relays offer, answer and ICE candidates to the
+ * other peer. The server is untrusted: what it relays is checked later by the
+ * SAS comparison and the passcode handshake.
+ */
+export class SignalingClient {
+  private ws: WebSocket;
+  private onSignalCallback: ((data: SignalData) => void) | null = null;
+  private onPeerJoinedCallback: (() => void) | null = null;
+  peerPresent: boolean;
+
+  private constructor(ws: WebSocket, peerPresent: boolean) {
+    this.ws = ws;
+    this.peerPresent = peerPresent;
+
+    ws.onmessage = (event) => {
+      const message = parseServerMessage(event.data);
+      if (!message) {
+        console.error('Ignoring malformed signaling message');
+        return;
+      }
+      switch (message.type) {
+        case 'peer-joined':
+          this.peerPresent = true;
+          this.onPeerJoinedCallback?.();
+          break;
+        case 'peer-left':
+          this.peerPresent = false;
+          break;
+        case 'signal':
+          this.onSignalCallback?.(message.data);
+          break;
+        case 'error':
+          console.error('Signaling server error:', message.reason);
+          break;
+      }
+    };
+    ws.onerror = (error) => {
+      console.error('Signaling connection error:', error);
+    };
+  }
+
+  /**
+   * Connect and join the room. Rejects if the server is unreachable, does not
+   * answer in time, or refuses the join (e.g. the room already has two peers).
+   */
+  static connect(url: string, roomId: string): Promise<SignalingClient> {
+    return new Promise((resolve, reject) => {
+      const ws = new WebSocket(url);
+      const fail = (reason: string) => {
+        clearTimeout(timer);
+        ws.close();
+        reject(new Error(reason));
+      };
+      const timer = setTimeout(() => fail('Signaling server did not respond'), SIGNALING_TIMEOUT_MS);
+
+      ws.onopen = () => {
+        ws.send(JSON.stringify({ type: 'join', room: roomId }));
+      };
+      ws.onerror = () => fail(`Could not reach signaling server at ${url}`);
+      ws.onmessage = (event) => {
+        const message = parseServerMessage(event.data);
+        if (!message) {
+          fail('Malformed signaling message');
+        } else if (message.type === 'joined') {
+          clearTimeout(timer);
+          resolve(new SignalingClient(ws, message.peerPresent));
+        } else if (message.type === 'error') {
+          fail(message.reason);
+        }
+      };
+    });
+  }
+
+  send(data: SignalData): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ type: 'signal', data }));
+    }
+  }
+
+  onSignal(callback: (data: SignalData) => void): void {
+    this.onSignalCallback = callback;
+  }
+
+  onPeerJoined(callback: () => void): void {
+    this.onPeerJoinedCallback = callback;
+  }
+
+  close(): void {
+    this.ws.close();
+  }
+}
+
+export class WebRTCConnection implements Transport {
   private pc: RTCPeerConnection | null = null;
   private dc: RTCDataChannel | null = null;
-  private onMessageCallback: ((data: any) => void) | null = null;
+  private onMessageCallback: ((data: unknown) => void) | null = null;
   private onConnectionStateCallback: ((state: RTCPeerConnectionState) => void) | null = null;
   private onDataChannelOpenCallback: (() => void) | null = null;
-
-  constructor() {
-    this.pc = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' }
-      ]
-    });
+  private onDataChannelCloseCallback: (() => void) | null = null;
+  private announcedChannel: RTCDataChannel | null = null;
+  private channelName = 'bb84-channel';
+  private ownsChannel = false;
+  private reopenPending = false;
+  private wireFormat: WireFormat;
+  private outbox: (string | Uint8Array)[] = [];
+
+  constructor(iceSettings: IceSettings = DEFAULT_ICE_SETTINGS) {
+    this.pc = new RTCPeerConnection(toRTCConfiguration(iceSettings));
+    this.wireFormat = iceSettings.wireFormat;
 
     this.pc.onconnectionstatechange = () => {
-      if (this.pc && this.onConnectionStateCallback) {
-        this.onConnectionStateCallback(this.pc.connectionState);
+      if (!this.pc) return;
+      const state = this.pc.connectionState;
+      if (state === 'failed') {
+        this.restartIce();
+      } else if (state === 'connected' && this.reopenPending) {
+        this.reopenPending = false;
+        this.createDataChannel(this.channelName);
+      }
+      if (this.onConnectionStateCallback) {
+        this.onConnectionStateCallback(state);
       }
     };
   }
@@ -23,8 +158,10 @@ export class WebRTCConnection {
   createDataChannel(channelName: string = 'bb84-channel'): void {
     if (!this.pc) return;
 
+    this.channelName = channelName;
+    this.ownsChannel = true;
     this.dc = this.pc.createDataChannel(channelName);
-    this.setupDataChannel();
+    this.setupDataChannel(this.dc);
   }
 
   onDataChannel(callback: () => void): void {
@@ -32,18 +169,40 @@ export class WebRTCConnection {
 
     this.pc.ondatachannel = (event) => {
       this.dc = event.channel;
-      this.setupDataChannel();
+      this.setupDataChannel(event.channel);
       callback();
     };
   }
 
-  private setupDataChannel(): void {
-    if (!this.dc) return;
+  /**
+   * Gather fresh ICE candidates after the connection failed.
+   * The new offer travels through the signaling server (see negotiate());
+   * without one the connection cannot be restarted and stays failed.
+   */
+  restartIce(): void {
+    if (!this.pc) return;
+    console.log('Restarting ICE');
+    this.pc.restartIce();
+  }
+
+  isDataChannelOpen(): boolean {
+    return this.dc?.readyState === 'open';
+  }
+
+  private setupDataChannel(channel: RTCDataChannel): void {
+    // Chunks queued for the previous channel would corrupt the new one's first frame
+    this.outbox = [];
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+    channel.onbufferedamountlow = () => {
+      if (channel === this.dc) this.flush();
+    };
 
-    this.dc.onmessage = (event) => {
+    const assembler = new FrameAssembler();
+    channel.onmessage = (event) => {
       try {
-        const data = JSON.parse(event.data);
-        if (this.onMessageCallback) {
+        const data = assembler.push(event.data);
+        if (data !== undefined && this.onMessageCallback) {
           this.onMessageCallback(data);
         }
       } catch (error) {
@@ -51,22 +210,49 @@ export class WebRTCConnection {
       }
     };
 
-    this.dc.onopen = () => {
+    channel.onopen = () => {
       console.log('Data channel opened');
-      if (this.onDataChannelOpenCallback) {
-        this.onDataChannelOpenCallback();
-      }
+      this.announceOpen(channel);
     };
 
-    this.dc.onclose = () => {
+    // A channel announced by the remote peer may already be open
+    if (channel.readyState === 'open') {
+      this.announceOpen(channel);
+    }
+
+    channel.onclose = () => {
       console.log('Data channel closed');
+      // Ignore channels that were already replaced or closed on purpose
+      if (channel !== this.dc) return;
+      this.outbox = [];
+      this.onDataChannelCloseCallback?.();
+
+      // The side that created the channel opens a replacement once the connection is usable
+      if (this.ownsChannel && this.pc) {
+        if (this.pc.connectionState === 'connected') {
+          this.createDataChannel(this.channelName);
+        } else {
+          this.reopenPending = true;
+        }
+      }
     };
 
-    this.dc.onerror = (error) => {
+    channel.onerror = (error) => {
       console.error('Data channel error:', error);
     };
   }
 
+  /**
+   * Each channel is announced once, whether it opened or was already open
+   */
+  private announceOpen(channel: RTCDataChannel): void {
+    if (this.announcedChannel === channel) return;
+    this.announcedChannel = channel;
+    if (this.onDataChannelOpenCallback) {
+      this.onDataChannelOpenCallback();
+    }
+  }
+
   async createOffer(): Promise<string> {
     if (!this.pc) throw new Error('No peer connection');
 
@@ -101,6 +287,87 @@ export class WebRTCConnection {
     await this.pc.setRemoteDescription(new RTCSessionDescription(answer));
   }
 
+  /**
+   * Negotiate through a signaling server instead of copy/paste.
+   * Candidates are trickled as they are gathered rather than waiting for ICE
+   * gathering to finish. The creator sends the offer once the other peer is
+   * in the room; incoming signals are handled one at a time so candidates that
+   * arrive before the remote description are queued and applied after it.
+   */
+  negotiate(signaling: SignalingClient, isCreator: boolean): void {
+    const pc = this.pc;
+    if (!pc) return;
+
+    const pendingCandidates: RTCIceCandidateInit[] = [];
+    let queue: Promise<void> = Promise.resolve();
+    let offered = false;
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        signaling.send({ kind: 'candidate', candidate: event.candidate.toJSON() });
+      }
+    };
+
+    const applyPendingCandidates = async () => {
+      while (pendingCandidates.length > 0) {
+        await pc.addIceCandidate(pendingCandidates.shift());
+      }
+    };
+
+    const handleSignal = async (data: SignalData) => {
+      switch (data.kind) {
+        case 'offer': {
+          if (isCreator) return;
+          await pc.setRemoteDescription({ type: 'offer', sdp: data.sdp });
+          await applyPendingCandidates();
+          const answer = await pc.createAnswer();
+          await pc.setLocalDescription(answer);
+          signaling.send({ kind: 'answer', sdp: answer.sdp ?? '' });
+          break;
+        }
+        case 'answer':
+          if (!isCreator) return;
+          await pc.setRemoteDescription({ type: 'answer', sdp: data.sdp });
+          await applyPendingCandidates();
+          break;
+        case 'candidate':
+          if (pc.remoteDescription) {
+            await pc.addIceCandidate(data.candidate);
+          } else {
+            pendingCandidates.push(data.candidate);
+          }
+          break;
+      }
+    };
+
+    const sendOffer = async () => {
+      if (offered) return;
+      offered = true;
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+      signaling.send({ kind: 'offer', sdp: offer.sdp ?? '' });
+    };
+
+    const enqueue = (task: () => Promise<void>) => {
+      queue = queue.then(task).catch(error => console.error('Signaling error:', error));
+    };
+
+    // restartIce() makes the creator's next offer an ICE restart
+    const sendRestartOffer = async () => {
+      if (!offered || pc.signalingState !== 'stable' || !pc.remoteDescription) return;
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+      signaling.send({ kind: 'offer', sdp: offer.sdp ?? '' });
+    };
+
+    signaling.onSignal(data => enqueue(() => handleSignal(data)));
+    if (isCreator) {
+      pc.onnegotiationneeded = () => enqueue(sendRestartOffer);
+      signaling.onPeerJoined(() => enqueue(sendOffer));
+      if (signaling.peerPresent) enqueue(sendOffer);
+    }
+  }
+
   private waitForIceGathering(): Promise<void> {
     return new Promise((resolve) => {
       if (!this.pc) {
@@ -124,15 +391,39 @@ export class WebRTCConnection {
     });
   }
 
-  sendMessage(data: any): void {
+  sendMessage(data: unknown): void {
     if (this.dc && this.dc.readyState === 'open') {
-      this.dc.send(JSON.stringify(data));
+      this.outbox.push(...splitFrame(encodeFrame(data, this.wireFormat), this.maxMessageSize()));
+      this.flush();
     } else {
       console.warn('Data channel not open, cannot send message');
     }
   }
 
-  onMessage(callback: (data: any) => void): void {
+  /**
+   * Hand queued messages to the channel until its buffer reaches the high
+   * water mark; the bufferedamountlow event resumes sending
+   */
+  private flush(): void {
+    const channel = this.dc;
+    if (!channel || channel.readyState !== 'open') return;
+    while (this.outbox.length > 0 && channel.bufferedAmount < BUFFER_HIGH_WATER) {
+      const message = this.outbox.shift();
+      // send() is overloaded, so each branch passes one type
+      if (typeof message === 'string') {
+        channel.send(message);
+      } else {
+        channel.send(message);
+      }
+    }
+  }
+
+  private maxMessageSize(): number {
+    const limit = this.pc?.sctp?.maxMessageSize;
+    return limit ? Math.min(limit, MAX_MESSAGE_SIZE) : DEFAULT_MESSAGE_SIZE;
+  }
+
+  onMessage(callback: (data: unknown) => void): void {
     this.onMessageCallback = callback;
   }
 
@@ -144,14 +435,87 @@ export class WebRTCConnection {
     this.onDataChannelOpenCallback = callback;
   }
 
+  onDataChannelClose(callback: () => void): void {
+    this.onDataChannelCloseCallback = callback;
+  }
+
+  /**
+   * The negotiated offer and answer SDPs, or null until both are set
+   */
+  getSessionDescriptions(): { offer: string; answer: string } | null {
+    const local = this.pc?.localDescription;
+    const remote = this.pc?.remoteDescription;
+    if (!local || !remote) return null;
+    return local.type === 'offer'
+      ? { offer: local.sdp, answer: remote.sdp }
+      : { offer: remote.sdp, answer: local.sdp };
+  }
+
+  /**
+   * Gathered candidates and the selected candidate pair from getStats()
+   */
+  async getDiagnostics(): Promise<ConnectionDiagnostics | null> {
+    const pc = this.pc;
+    if (!pc) return null;
+
+    const stats = await pc.getStats();
+    const candidates = new Map<string, CandidateInfo>();
+    const localCandidates: CandidateInfo[] = [];
+    const remoteCandidates: CandidateInfo[] = [];
+    let selectedPairId: string | null = null;
+
+    stats.forEach((report) => {
+      if (report.type === 'local-candidate' || report.type === 'remote-candidate') {
+        const candidate: CandidateInfo = {
+          type: report.candidateType,
+          protocol: report.protocol,
+          address: report.address ?? report.ip ?? '',
+          port: report.port,
+        };
+        candidates.set(report.id, candidate);
+        (report.type === 'local-candidate' ? localCandidates : remoteCandidates).push(candidate);
+      } else if (report.type === 'transport' && report.selectedCandidatePairId) {
+        selectedPairId = report.selectedCandidatePairId;
+      }
+    });
+
+    // Firefox has no transport report and flags the pair itself instead
+    let selectedPair: ConnectionDiagnostics['selectedPair'] = null;
+    stats.forEach((report) => {
+      if (report.type !== 'candidate-pair') return;
+      const selected = selectedPairId ? report.id === selectedPairId : report.selected === true;
+      const local = candidates.get(report.localCandidateId);
+      const remote = candidates.get(report.remoteCandidateId);
+      if (selected && local && remote) {
+        selectedPair = {
+          local,
+          remote,
+          roundTripTime: report.currentRoundTripTime ?? null,
+          bytesSent: report.bytesSent ?? 0,
+          bytesReceived: report.bytesReceived ?? 0,
+        };
+      }
+    });
+
+    return {
+      connectionState: pc.connectionState,
+      iceConnectionState: pc.iceConnectionState,
+      iceGatheringState: pc.iceGatheringState,
+      localCandidates,
+      remoteCandidates,
+      selectedPair,
+    };
+  }
+
   getConnectionState(): RTCPeerConnectionState {
     return this.pc?.connectionState || 'closed';
   }
 
   close(): void {
     if (this.dc) {
-      this.dc.close();
+      const channel = this.dc;
       this.dc = null;
+      channel.close();
     }
     if (this.pc) {
       this.pc.close();
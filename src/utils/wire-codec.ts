@@ -0,0 +1,482 @@
+// Wire Codec
+// Compact binary encoding of frames: type tags, varint lengths and bit-packed arrays
+
+import { WireFormat } from '@/types/bb84';
+import { BitSet } from './bitset';
+
+const Tag = {
+  Null: 0,
+  False: 1,
+  True: 2,
+  Uint: 3, // varint
+  Negative: 4, // varint of -(n + 1)
+  Float: 5, // float64, little-endian
+  String: 6, // varint byte length + UTF-8
+  KnownString: 7, // varint index into KNOWN_STRINGS
+  Array: 8, // varint count + values
+  Object: 9, // varint count + (key, value) pairs
+  BitArray: 10, // varint length + bits packed LSB first
+  BoolArray: 11, // varint length + bits packed LSB first
+  UintArray: 12, // varint length + varints
+  ObjectArray: 13, // varint count + varint key count + keys + one array per key (columns)
+} as const;
+
+/**
+ * Keys and values that appear in nearly every frame, sent as a one-byte index.
+ * Append only: reordering or removing entries changes the wire format and
+ * needs a PROTOCOL_VERSION bump.
+ */
+const KNOWN_STRINGS = [
+  // Frame layers
+  'type', 'kind', 'seq', 'ack', 'payload', 'received', 'session', 'reply', 'mac', 'channel',
+  'hello', 'data', 'authenticated', 'protocol', 'chat', 'refresh',
+  'pake_share', 'pake_confirm', 'share', 'version', 'confirmation', 'role_selected', 'role', 'alice', 'bob',
+  // BB84Message types
+  'prepared', 'measured', 'announce_bases', 'sifting_result', 'qber_request', 'qber_response',
+  'accept_or_abort', 'error_correction', 'parity_request', 'parity_response', 'syndrome',
+  'error_correction_stats', 'privacy_amplification', 'final_key_commitment', 'final_key_confirmed',
+  'rekey', 'rekey_ack', 'chat_message', 'otp_chat_message', 'chat_ended', 'abort', 'quantum_transmission',
+  // BB84Message fields
+  'numQubits', 'bases', 'keepMask', 'sampleIndices', 'sampleBits', 'accepted', 'qber', 'round',
+  'passSeeds', 'queries', 'pass', 'start', 'end', 'parityBits', 'seed', 'stats', 'method',
+  'errorsCorrected', 'parityRounds', 'roundTrips', 'bitsRevealed', 'efficiency', 'cascade', 'ldpc',
+  'hashSeed', 'commitment', 'match', 'epoch', 'encrypted', 'iv', 'offset', 'ciphertext', 'tag',
+  'reason', 'qubits', 'polarization',
+  // Added in protocol v3
+  'detected',
+  // Added in protocol v4
+  'bb84', 'b92',
+  // Added in protocol v5
+  'syndrome_request',
+  // Added in protocol v6
+  'epsilonSec', 'epsilonCor',
+];
+const KNOWN_INDEX = new Map(KNOWN_STRINGS.map((value, index) => [value, index]));
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+function isUint(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Keys of an object in encoding order, skipping undefined values as JSON does
+function definedKeys(value: Record<string, unknown>): string[] {
+  return Object.keys(value).filter(key => value[key] !== undefined);
+}
+
+function sameKeys(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((key, i) => key === b[i]);
+}
+
+class Writer {
+  private buffer = new Uint8Array(256);
+  private length = 0;
+
+  private reserve(bytes: number): void {
+    if (this.length + bytes <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.length + bytes) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  varint(value: number): void {
+    // Division instead of bit shifts keeps integers above 2^31 intact
+    while (value >= 0x80) {
+      this.byte((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  bytes(value: Uint8Array): void {
+    this.reserve(value.length);
+    this.buffer.set(value, this.length);
+    this.length += value.length;
+  }
+
+  float(value: number): void {
+    this.reserve(8);
+    new DataView(this.buffer.buffer).setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  bits(values: ArrayLike<number | boolean>): void {
+    this.varint(values.length);
+    const packed = new Uint8Array(Math.ceil(values.length / 8));
+    for (let i = 0; i < values.length; i++) {
+      if (values[i]) packed[i >> 3] |= 1 << (i & 7);
+    }
+    this.bytes(packed);
+  }
+
+  // Same layout as bits(), straight from the packed words
+  bitSet(value: BitSet): void {
+    this.varint(value.length);
+    this.bytes(value.toBytes());
+  }
+
+  result(): Uint8Array {
+    return this.buffer.slice(0, this.length);
+  }
+}
+
+class Reader {
+  private data: Uint8Array;
+  private offset = 0;
+
+  constructor(data: Uint8Array) {
+    this.data = data;
+  }
+
+  get done(): boolean {
+    return this.offset === this.data.length;
+  }
+
+  byte(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('Truncated binary frame');
+    }
+    return this.data[this.offset++];
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale > Number.MAX_SAFE_INTEGER) {
+        throw new Error('Varint too long in binary frame');
+      }
+    }
+  }
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) {
+      throw new Error('Truncated binary frame');
+    }
+    const slice = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  float(): number {
+    const slice = this.bytes(8);
+    return new DataView(slice.buffer, slice.byteOffset, 8).getFloat64(0, true);
+  }
+
+  bits(): boolean[] {
+    const length = this.varint();
+    const packed = this.bytes(Math.ceil(length / 8));
+    const values = new Array<boolean>(length);
+    for (let i = 0; i < length; i++) {
+      values[i] = (packed[i >> 3] & (1 << (i & 7))) !== 0;
+    }
+    return values;
+  }
+}
+
+function writeString(writer: Writer, value: string): void {
+  const known = KNOWN_INDEX.get(value);
+  if (known !== undefined) {
+    writer.byte(Tag.KnownString);
+    writer.varint(known);
+    return;
+  }
+  const bytes = textEncoder.encode(value);
+  writer.byte(Tag.String);
+  writer.varint(bytes.length);
+  writer.bytes(bytes);
+}
+
+function writeArray(writer: Writer, value: unknown[]): void {
+  if (value.length > 0) {
+    if (value.every(item => item === 0 || item === 1)) {
+      writer.byte(Tag.BitArray);
+      writer.bits(value as number[]);
+      return;
+    }
+    if (value.every(item => typeof item === 'boolean')) {
+      writer.byte(Tag.BoolArray);
+      writer.bits(value as boolean[]);
+      return;
+    }
+    if (value.every(isUint)) {
+      writer.byte(Tag.UintArray);
+      writer.varint(value.length);
+      (value as number[]).forEach(item => writer.varint(item));
+      return;
+    }
+    if (value.length > 1 && isPlainObject(value[0])) {
+      // Records with identical keys (e.g. photons) are sent as columns
+      const keys = definedKeys(value[0]);
+      if (value.every(item => isPlainObject(item) && sameKeys(definedKeys(item), keys))) {
+        writer.byte(Tag.ObjectArray);
+        writer.varint(value.length);
+        writer.varint(keys.length);
+        keys.forEach(key => writeString(writer, key));
+        const rows = value as Record<string, unknown>[];
+        keys.forEach(key => writeArray(writer, rows.map(row => row[key])));
+        return;
+      }
+    }
+  }
+  writer.byte(Tag.Array);
+  writer.varint(value.length);
+  value.forEach(item => writeValue(writer, item === undefined ? null : item));
+}
+
+function writeValue(writer: Writer, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.byte(Tag.Null);
+  } else if (value === false) {
+    writer.byte(Tag.False);
+  } else if (value === true) {
+    writer.byte(Tag.True);
+  } else if (typeof value === 'number') {
+    if (Number.isSafeInteger(value)) {
+      writer.byte(value >= 0 ? Tag.Uint : Tag.Negative);
+      writer.varint(value >= 0 ? value : -value - 1);
+    } else if (Number.isFinite(value)) {
+      writer.byte(Tag.Float);
+      writer.float(value);
+    } else {
+      // JSON has no NaN or Infinity either
+      writer.byte(Tag.Null);
+    }
+  } else if (typeof value === 'string') {
+    writeString(writer, value);
+  } else if (Array.isArray(value)) {
+    writeArray(writer, value);
+  } else if (value instanceof BitSet) {
+    // Encoded exactly like the equivalent bit array, which is what the peer decodes it to
+    if (value.length > 0) {
+      writer.byte(Tag.BitArray);
+      writer.bitSet(value);
+    } else {
+      writer.byte(Tag.Array);
+      writer.varint(0);
+    }
+  } else if (isPlainObject(value)) {
+    const keys = definedKeys(value);
+    writer.byte(Tag.Object);
+    writer.varint(keys.length);
+    keys.forEach(key => {
+      writeString(writer, key);
+      writeValue(writer, value[key]);
+    });
+  } else {
+    throw new Error(`Cannot encode a value of type ${typeof value}`);
+  }
+}
+
+function readString(reader: Reader): string {
+  const value = readValue(reader);
+  if (typeof value !== 'string') {
+    throw new Error('Expected a string key in binary frame');
+  }
+  return value;
+}
+
+function readValue(reader: Reader): unknown {
+  const tag = reader.byte();
+  switch (tag) {
+    case Tag.Null:
+      return null;
+    case Tag.False:
+      return false;
+    case Tag.True:
+      return true;
+    case Tag.Uint:
+      return reader.varint();
+    case Tag.Negative:
+      return -reader.varint() - 1;
+    case Tag.Float:
+      return reader.float();
+    case Tag.String:
+      return textDecoder.decode(reader.bytes(reader.varint()));
+    case Tag.KnownString: {
+      const index = reader.varint();
+      if (index >= KNOWN_STRINGS.length) {
+        throw new Error(`Unknown string index ${index} in binary frame`);
+      }
+      return KNOWN_STRINGS[index];
+    }
+    case Tag.Array: {
+      const values: unknown[] = [];
+      for (let i = reader.varint(); i > 0; i--) values.push(readValue(reader));
+      return values;
+    }
+    case Tag.Object: {
+      const value: Record<string, unknown> = {};
+      for (let i = reader.varint(); i > 0; i--) {
+        const key = readString(reader);
+        value[key] = readValue(reader);
+      }
+      return value;
+    }
+    case Tag.BitArray:
+      return reader.bits().map(bit => (bit ? 1 : 0));
+    case Tag.BoolArray:
+      return reader.bits();
+    case Tag.UintArray: {
+      const length = reader.varint();
+      const values: number[] = [];
+      for (let i = 0; i < length; i++) values.push(reader.varint());
+      return values;
+    }
+    case Tag.ObjectArray: {
+      const count = reader.varint();
+      const keys: string[] = [];
+      for (let i = reader.varint(); i > 0; i--) keys.push(readString(reader));
+      const rows = Array.from({ length: count }, () => ({}) as Record<string, unknown>);
+      keys.forEach(key => {
+        const column = readValue(reader);
+        if (!Array.isArray(column) || column.length !== count) {
+          throw new Error('Malformed column in binary frame');
+        }
+        rows.forEach((row, i) => (row[key] = column[i]));
+      });
+      return rows;
+    }
+    default:
+      throw new Error(`Unknown tag ${tag} in binary frame`);
+  }
+}
+
+/**
+ * Binary encoding of any JSON-compatible value. The output is deterministic,
+ * so it doubles as the canonical form that frame MACs are computed over.
+ */
+export function encodeBinary(value: unknown): Uint8Array {
+  const writer = new Writer();
+  writeValue(writer, value);
+  return writer.result();
+}
+
+export function decodeBinary(data: Uint8Array): unknown {
+  const reader = new Reader(data);
+  const value = readValue(reader);
+  if (!reader.done) {
+    throw new Error('Trailing bytes after binary frame');
+  }
+  return value;
+}
+
+/**
+ * Serialize a frame for the wire: a string in JSON mode, bytes in binary mode
+ */
+export function encodeFrame(value: unknown, format: WireFormat): string | Uint8Array {
+  return format === 'binary' ? encodeBinary(value) : JSON.stringify(value);
+}
+
+/**
+ * Accepts either format, so each peer may pick its own
+ */
+export function decodeFrame(frame: string | ArrayBuffer | Uint8Array): unknown {
+  if (typeof frame === 'string') return JSON.parse(frame);
+  return decodeBinary(frame instanceof Uint8Array ? frame : new Uint8Array(frame));
+}
+
+// First byte of each binary message, or first character of a split JSON message
+const WHOLE = 0;
+const MORE = 1;
+const LAST = 2;
+
+/**
+ * Split a serialized frame into data channel messages of at most maxSize
+ * bytes. Binary messages start with a WHOLE/MORE/LAST byte; JSON that fits is
+ * sent as is and longer JSON is cut into pieces prefixed with the MORE/LAST
+ * character. The channel is ordered, so no message IDs are needed.
+ */
+export function splitFrame(frame: string | Uint8Array, maxSize: number): (string | Uint8Array)[] {
+  if (typeof frame === 'string') {
+    if (frame.length * 3 <= maxSize) return [frame];
+    // Worst case three UTF-8 bytes per UTF-16 unit, less one for the prefix
+    const pieceLength = Math.floor((maxSize - 1) / 3);
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < frame.length) {
+      let end = Math.min(start + pieceLength, frame.length);
+      // Keep surrogate pairs together
+      const last = frame.charCodeAt(end - 1);
+      if (end < frame.length && last >= 0xd800 && last <= 0xdbff) end--;
+      pieces.push(frame.slice(start, end));
+      start = end;
+    }
+    return pieces.map((piece, i) => String.fromCharCode(i === pieces.length - 1 ? LAST : MORE) + piece);
+  }
+
+  const pieceLength = maxSize - 1;
+  if (frame.length <= pieceLength) {
+    return [withHeader(WHOLE, frame)];
+  }
+  const messages: Uint8Array[] = [];
+  for (let start = 0; start < frame.length; start += pieceLength) {
+    const end = Math.min(start + pieceLength, frame.length);
+    messages.push(withHeader(end === frame.length ? LAST : MORE, frame.subarray(start, end)));
+  }
+  return messages;
+}
+
+function withHeader(header: number, body: Uint8Array): Uint8Array {
+  const message = new Uint8Array(body.length + 1);
+  message[0] = header;
+  message.set(body, 1);
+  return message;
+}
+
+/**
+ * Reassembles frames from data channel messages of either format.
+ * Feed every message in arrival order; returns the decoded frame once its
+ * last piece has arrived, undefined while more are expected.
+ */
+export class FrameAssembler {
+  private text: string[] = [];
+  private binary: Uint8Array[] = [];
+
+  push(message: string | ArrayBuffer | Uint8Array): unknown {
+    if (typeof message === 'string') {
+      const header = message.charCodeAt(0);
+      if (header !== MORE && header !== LAST) return decodeFrame(message);
+      this.text.push(message.slice(1));
+      if (header === MORE) return undefined;
+      const frame = this.text.join('');
+      this.text = [];
+      return decodeFrame(frame);
+    }
+
+    const bytes = message instanceof Uint8Array ? message : new Uint8Array(message);
+    const header = bytes[0];
+    if (header === WHOLE) return decodeFrame(bytes.subarray(1));
+    if (header !== MORE && header !== LAST) {
+      this.binary = [];
+      throw new Error(`Unknown message header ${header}`);
+    }
+    this.binary.push(bytes.slice(1));
+    if (header === MORE) return undefined;
+
+    const frame = new Uint8Array(this.binary.reduce((sum, piece) => sum + piece.length, 0));
+    let offset = 0;
+    for (const piece of this.binary) {
+      frame.set(piece, offset);
+      offset += piece.length;
+    }
+    this.binary = [];
+    return decodeFrame(frame);
+  }
+}
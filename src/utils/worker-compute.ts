@@ -0,0 +1,78 @@
+// Worker Compute Backend
+// Sends compute jobs to the BB84 Web Worker and relays their progress
+
+import { BB84Compute, ComputeOp, ComputeOps, ComputeRequest, ComputeResponse } from '@/types/bb84';
+import { packFields, ProgressCallback, unpackFields } from './compute';
+
+interface PendingJob {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * Runs jobs in a dedicated Web Worker so a million-qubit round never blocks
+ * rendering. The worker starts on the first job and can be stopped at any
+ * time; jobs still running are then rejected.
+ */
+export class WorkerCompute implements BB84Compute {
+  private worker: Worker | null = null;
+  private jobs = new Map<number, PendingJob>();
+  private nextId = 0;
+
+  run<K extends ComputeOp>(
+    op: K,
+    args: ComputeOps[K]['args'],
+    onProgress?: ProgressCallback
+  ): Promise<ComputeOps[K]['result']> {
+    return new Promise((resolve, reject) => {
+      const id = this.nextId++;
+      this.jobs.set(id, { resolve, reject, onProgress });
+      const transfer: Transferable[] = [];
+      const request: ComputeRequest = { id, op, args: packFields(args, transfer) };
+      this.connect().postMessage(request, transfer);
+    });
+  }
+
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.failAll('The compute worker was stopped');
+  }
+
+  private connect(): Worker {
+    if (!this.worker) {
+      const worker = new Worker(new URL('../workers/bb84.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<ComputeResponse>) => this.receive(event.data);
+      worker.onerror = event => {
+        event.preventDefault();
+        worker.terminate();
+        if (this.worker === worker) this.worker = null;
+        this.failAll(`The compute worker crashed: ${event.message}`);
+      };
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private receive(response: ComputeResponse): void {
+    const job = this.jobs.get(response.id);
+    if (!job) return;
+    if (response.kind === 'progress') {
+      job.onProgress?.(response.value);
+      return;
+    }
+    this.jobs.delete(response.id);
+    if (response.kind === 'result') {
+      job.resolve(unpackFields(response.result));
+    } else {
+      job.reject(new Error(response.message));
+    }
+  }
+
+  private failAll(reason: string): void {
+    const jobs = [...this.jobs.values()];
+    this.jobs.clear();
+    jobs.forEach(job => job.reject(new Error(reason)));
+  }
+}
@@ -0,0 +1,22 @@
+// BB84 Compute Worker
+// Runs simulation and post-processing jobs for WorkerCompute off the main thread
+
+import { ComputeOps, ComputeRequest, ComputeResponse } from '@/types/bb84';
+import { packFields, runComputation, unpackFields } from '@/utils/compute';
+
+function reply(response: ComputeResponse, transfer: Transferable[] = []): void {
+  postMessage(response, { transfer });
+}
+
+self.onmessage = (event: MessageEvent<ComputeRequest>) => {
+  const { id, op, args } = event.data;
+  try {
+    const result = runComputation(op, unpackFields<ComputeOps[typeof op]['args']>(args), value =>
+      reply({ id, kind: 'progress', value })
+    );
+    const transfer: Transferable[] = [];
+    reply({ id, kind: 'result', result: packFields(result, transfer) }, transfer);
+  } catch (error) {
+    reply({ id, kind: 'error', message: (error as Error).message });
+  }
+};